@@ -3,37 +3,120 @@ import { DndContext, DragEndEvent, PointerSensor, TouchSensor, KeyboardSensor, c
 import { SortableContext, useSortable, arrayMove, rectSortingStrategy } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { io, Socket } from 'socket.io-client'
+import {
+  type AnswerMode, type ClientToServerEvents, type ErrorPayload, ErrorCode, type HostChangedPayload, PROTOCOL_VERSION, type Prompt, type PromptPackSummary, type PromptVote,
+  type GameMode, type Match, type MatchMode, type PartyScore, type RoomState, type Round, type RoundRecord, type RoundResultPayload, type RoundScores, type ServerToClientEvents, type TimerStatePayload, deckRange, isOrdered,
+} from '@sequencing/protocol'
+
+const TOKEN_KEY = 'ordering_token'
+const CLIENT_KEY = 'seq_client'
+
+function readToken(): string | null { try { return localStorage.getItem(TOKEN_KEY) } catch { return null } }
+
+// A random id this browser keeps for good; hosts' bans are keyed on it
+function clientId(): string | undefined {
+  try {
+    let id = localStorage.getItem(CLIENT_KEY)
+    if (!id) {
+      id = Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('')
+      localStorage.setItem(CLIENT_KEY, id)
+    }
+    return id
+  } catch { return undefined }
+}
+
+// Who drags the cards: the guesser, or in party rounds every participant (ordering everyone else)
+function ordersRound(round: Round, id: string | null): boolean {
+  if (!id) return false
+  return round.mode === 'party' ? round.participants.includes(id) : round.guesserId === id
+}
+function answererCount(round: Round): number {
+  return round.participants.filter(id => id !== round.guesserId).length
+}
+
+// "Round 2 of 5" style progress while the room plays a match; null for open play
+function matchProgress(state: RoomState): string | null {
+  const { matchMode, matchLength = 1 } = state.settings
+  const rounds = state.match?.rounds.length ?? 0
+  if (matchMode === 'rounds') return `Match: ${rounds} of ${matchLength} rounds played`
+  if (matchMode === 'guesses') {
+    const seated = state.players.filter(p => p.role === 'player')
+    const fewest = Math.min(...seated.map(p => state.match?.guesses[p.id] ?? 0))
+    return `Match: everyone has guessed ${Number.isFinite(fewest) ? fewest : 0} of ${matchLength} times`
+  }
+  return null
+}
+
+// The server's clock as seen from here: Date.now() plus an offset measured by clock sync (see useSocket).
+// Countdowns run against now() from the time left the server sent, so a phone whose clock is off still shows the right time.
+function createServerClock() {
+  let offset = 0
+  let synced = false
+  return {
+    now: () => Date.now() + offset,
+    set(next: number) { offset = next; synced = true },
+    // timer:state carries the server's time too: close enough until the first clock:pong
+    hint(serverNow: number) { if (!synced) offset = serverNow - Date.now() },
+  }
+}
+
+const CLOCK_SAMPLES = 5 // pings per sync
+const CLOCK_RESYNC_MS = 60_000
 
 // naive local store just for MVP demo
+// The token is a secret resume credential; our public player id comes from `session:self`.
 function useSocket() {
-  const socket = useMemo<Socket>(() => io('/', { path: '/socket.io', autoConnect: false }), [])
+  const socket = useMemo<Socket<ServerToClientEvents, ClientToServerEvents>>(() => io('/', { path: '/socket.io', autoConnect: false }), [])
+  const clock = useMemo(createServerClock, [])
   const [connected, setConnected] = useState(false)
+  const [myId, setMyId] = useState<string | null>(null)
   useEffect(() => {
-    function onConnect() { setConnected(true) }
-    function onDisconnect() { setConnected(false) }
-    function onSession(p: { token: string }) { try { localStorage.setItem('ordering_token', p.token) } catch {}
-      // resume immediately after receiving a new token
-      socket.emit('session:hello', { token: p.token })
+    // Clock sync: a few clock:pings on every connect and again every minute. The server read its clock
+    // about halfway through each round trip; the sample with the shortest trip is the tightest estimate.
+    let sync = { left: 0, bestRtt: Infinity }
+    let resync: ReturnType<typeof setInterval> | undefined
+    function syncClock() {
+      sync = { left: CLOCK_SAMPLES, bestRtt: Infinity }
+      socket.emit('clock:ping', { t0: Date.now() })
+    }
+    function onPong(p: { t0: number; serverNow: number }) {
+      const receivedAt = Date.now()
+      const rtt = receivedAt - p.t0
+      if (rtt < sync.bestRtt) {
+        sync.bestRtt = rtt
+        clock.set(p.serverNow + rtt / 2 - receivedAt)
+      }
+      if (--sync.left > 0) socket.emit('clock:ping', { t0: Date.now() })
+    }
+    // Announce our protocol version and attempt resume on every (re)connect;
+    // the server rotates the token and replies with session:self
+    function onConnect() {
+      setConnected(true)
+      socket.emit('session:hello', { token: readToken() ?? undefined, protocolVersion: PROTOCOL_VERSION, clientId: clientId() })
+      syncClock()
+      clearInterval(resync)
+      resync = setInterval(syncClock, CLOCK_RESYNC_MS)
+    }
+    function onDisconnect() { setConnected(false); clearInterval(resync) }
+    function onSession(p: { token: string }) { try { localStorage.setItem(TOKEN_KEY, p.token) } catch {} }
+    function onSelf(p: { playerId: string }) { setMyId(p.playerId) }
+    // our room is moving to another server node; resuming again shortly picks it up there
+    let retry: ReturnType<typeof setTimeout> | undefined
+    function onError(e: ErrorPayload) {
+      if (e.code !== ErrorCode.ROOM_UNAVAILABLE || !readToken()) return
+      clearTimeout(retry)
+      retry = setTimeout(() => { if (socket.connected) onConnect() }, 3000)
     }
     socket.on('connect', onConnect)
     socket.on('disconnect', onDisconnect)
     socket.on('session:token', onSession)
+    socket.on('session:self', onSelf)
+    socket.on('error', onError)
+    socket.on('clock:pong', onPong)
     socket.connect()
-    // Attempt resume
-    try { const tok = localStorage.getItem('ordering_token'); if (tok) socket.emit('session:hello', { token: tok }) } catch {}
-    return () => { socket.off('connect', onConnect); socket.off('disconnect', onDisconnect); socket.disconnect() }
-  }, [socket])
-  return { socket, connected }
-}
-
-type RoomState = {
-  code: string
-  hostId: string
-  players: { id: string; name: string; seat: number; connected: boolean; color: string }[]
-  settings: { maxPlayers: number; scoringEnabled: boolean; roundTimerSec?: number; profanityFilterEnabled?: boolean }
-  phase: 'lobby' | 'answering' | 'guessing' | 'reveal'
-  currentRound?: { id: string; index: number; guesserId: string; prompt: string; participants: string[]; answers?: Record<string, string> }
-  stats?: { wins: number; losses: number }
+    return () => { clearTimeout(retry); clearInterval(resync); socket.off('connect', onConnect); socket.off('disconnect', onDisconnect); socket.off('session:token', onSession); socket.off('session:self', onSelf); socket.off('error', onError); socket.off('clock:pong', onPong); socket.disconnect() }
+  }, [socket, clock])
+  return { socket, connected, myId, clock }
 }
 
 // Map server palette hex colors to Tailwind bg classes to avoid inline styles
@@ -71,23 +154,40 @@ function gridColsClass(n: number): string {
 }
 
 export default function App() {
-  const { socket, connected } = useSocket()
+  const { socket, connected, myId, clock } = useSocket()
   const [displayName, setDisplayName] = useState('')
   const [roomCode, setRoomCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [needsPassword, setNeedsPassword] = useState(false)
   const [state, setState] = useState<RoomState | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [outdated, setOutdated] = useState(false)
   const [myNumber, setMyNumber] = useState<number | null>(null)
   const [customPrompt, setCustomPrompt] = useState('')
+  const [customLow, setCustomLow] = useState('')
+  const [customHigh, setCustomHigh] = useState('')
+  const [packs, setPacks] = useState<PromptPackSummary[]>([])
+  const [upcoming, setUpcoming] = useState<Prompt[]>([])
   const [myAnswer, setMyAnswer] = useState('')
   const [answeredIds, setAnsweredIds] = useState<string[]>([])
   const [ordering, setOrdering] = useState<string[]>([])
-  const [result, setResult] = useState<{ trueOrder: string[]; numbers: Record<string, number>; submitted?: string[]; isWin?: boolean } | null>(null)
+  const [result, setResult] = useState<RoundResultPayload | null>(null)
   const [revealIndex, setRevealIndex] = useState<number>(-1)
   const [revealWin, setRevealWin] = useState<boolean | null>(null)
-  const [endsAt, setEndsAt] = useState<number | null>(null)
+  const [endsAt, setEndsAt] = useState<number | null>(null) // on the synced clock
+  const [timerMs, setTimerMs] = useState(0) // the running timer's full length, for the progress bar
   const [timerSec, setTimerSec] = useState<number | ''>('')
+  const [hostGraceSec, setHostGraceSec] = useState<number | ''>('')
+  const [turnTimerSec, setTurnTimerSec] = useState<number | ''>('')
+  const [maxPlayers, setMaxPlayers] = useState<number | ''>('')
+  const [matchLength, setMatchLength] = useState<number | ''>('')
+  const [deckMin, setDeckMin] = useState<number | ''>('')
+  const [deckMax, setDeckMax] = useState<number | ''>('')
+  const [hostChange, setHostChange] = useState<HostChangedPayload | null>(null)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [history, setHistory] = useState<RoundRecord[] | null>(null)
   const [profanity, setProfanity] = useState<boolean>(false)
-  const [myId, setMyId] = useState<string | null>(null)
+  const [scoring, setScoring] = useState<boolean>(false)
   const [now, setNow] = useState<number>(Date.now())
   const [orderingPreview, setOrderingPreview] = useState<string[]>([])
   const progressRef = React.useRef<HTMLDivElement | null>(null)
@@ -156,13 +256,21 @@ export default function App() {
   }
 
   useEffect(() => {
-    const onState = (payload: RoomState) => { setState(payload); setError(null) }
-    const onError = (e: { code: string; message: string }) => setError(`${e.code}: ${e.message}`)
+    const onState = (payload: RoomState) => { setState(payload); setError(null); setNeedsPassword(false) }
+    const onError = (e: ErrorPayload) => {
+      if (e.code === ErrorCode.PROTOCOL_MISMATCH) setOutdated(true)
+      if (e.code === ErrorCode.PASSWORD_REQUIRED || e.code === ErrorCode.WRONG_PASSWORD) setNeedsPassword(true)
+      setError(`${e.code}: ${e.message}`)
+    }
   const onDeal = (d: { number: number }) => setMyNumber(d.number)
-  const onStarted = (_: any) => { setMyAnswer(''); setAnsweredIds([]); setOrdering([]); setResult(null) }
+  const onStarted = () => { setMyAnswer(''); setAnsweredIds([]); setOrdering([]); setResult(null) }
   const onAnswerState = (p: { answeredIds: string[] }) => setAnsweredIds(p.answeredIds)
-  const onResult = (p: { trueOrder: string[]; numbers: Record<string, number>; submitted?: string[]; isWin?: boolean }) => { setResult(p); setRevealIndex(-1); setRevealWin(null) }
-  const onTimer = (p: { phase: string; endsAt: number }) => setEndsAt(p.endsAt)
+  const onResult = (p: RoundResultPayload) => { setResult(p); setRevealIndex(-1); setRevealWin(null) }
+  const onTimer = (p: TimerStatePayload) => {
+    clock.hint(p.serverNow)
+    setEndsAt(clock.now() + p.remainingMs)
+    setTimerMs(p.durationMs)
+  }
     socket.on('room:state', onState)
     socket.on('error', onError)
   socket.on('deal:self', onDeal)
@@ -170,25 +278,38 @@ export default function App() {
   socket.on('answer:state', onAnswerState)
   socket.on('round:result', onResult)
   socket.on('timer:state', onTimer)
-  const onSessionToken = (p: { token: string }) => { try { setMyId(p.token) } catch {} }
-  socket.on('session:token', onSessionToken)
   const onOrderingState = (p: { ordering: string[] }) => setOrderingPreview(p.ordering)
   socket.on('ordering:state', onOrderingState)
-  return () => { socket.off('room:state', onState); socket.off('error', onError); socket.off('deal:self', onDeal); socket.off('round:started', onStarted); socket.off('answer:state', onAnswerState); socket.off('round:result', onResult); socket.off('timer:state', onTimer); socket.off('session:token', onSessionToken); socket.off('ordering:state', onOrderingState) }
-  }, [socket])
+  const onHostChanged = (p: HostChangedPayload) => setHostChange(p)
+  socket.on('host:changed', onHostChanged)
+  const onHistory = (p: { rounds: RoundRecord[] }) => setHistory(p.rounds)
+  socket.on('room:history', onHistory)
+  // the room expired: our seat and token went with it
+  const onClosed = () => {
+    try { localStorage.removeItem(TOKEN_KEY) } catch {}
+    setState(null); setMyNumber(null)
+    setError('The room closed after a long time without activity.')
+  }
+  socket.on('room:closed', onClosed)
+  const onPacks = (p: { packs: PromptPackSummary[] }) => setPacks(p.packs)
+  const onQueue = (p: { upcoming: Prompt[] }) => setUpcoming(p.upcoming)
+  socket.on('prompt:packs', onPacks)
+  socket.on('prompt:queue', onQueue)
+  return () => { socket.off('prompt:packs', onPacks); socket.off('prompt:queue', onQueue); socket.off('room:state', onState); socket.off('error', onError); socket.off('deal:self', onDeal); socket.off('round:started', onStarted); socket.off('answer:state', onAnswerState); socket.off('round:result', onResult); socket.off('timer:state', onTimer); socket.off('ordering:state', onOrderingState); socket.off('host:changed', onHostChanged); socket.off('room:history', onHistory); socket.off('room:closed', onClosed) }
+  }, [socket, clock])
 
   function createRoom() {
     if (!displayName) return setError('Enter a name')
-  const token = (()=>{ try { return localStorage.getItem('ordering_token') } catch { return null } })()
-  socket.emit('room:create', { displayName, token })
+  socket.emit('room:create', { displayName })
   }
-  function joinRoom() {
+  function joinRoom(spectate = false) {
     if (!displayName || !roomCode) return setError('Enter name and room code')
-  const token = (()=>{ try { return localStorage.getItem('ordering_token') } catch { return null } })()
-  socket.emit('room:join', { roomCode: roomCode.trim().toUpperCase(), displayName, token })
+  socket.emit('room:join', { roomCode: roomCode.trim().toUpperCase(), displayName, token: readToken(), spectate, password: password || undefined })
   }
   function leaveRoom() {
     socket.emit('room:leave')
+    // the server revoked our seat's token
+    try { localStorage.removeItem(TOKEN_KEY) } catch {}
     setState(null); setMyNumber(null); setRoomCode('')
   }
   async function copyRoomLink() {
@@ -213,12 +334,21 @@ export default function App() {
     window.setTimeout(() => setCopyMsg(null), 1200)
   }
   function startRound() {
-    socket.emit('round:start', { prompt: customPrompt })
-    setCustomPrompt('')
+    socket.emit('round:start', { prompt: customPrompt, low: customLow, high: customHigh })
+    setCustomPrompt(''); setCustomLow(''); setCustomHigh('')
   }
   function kick(pid: string) {
     socket.emit('room:kick', { playerId: pid })
   }
+  function ban(pid: string) {
+    socket.emit('room:ban', { playerId: pid })
+  }
+  function seatPlayer(pid: string) {
+    socket.emit('room:seatPlayer', { playerId: pid })
+  }
+  function transferHost(pid: string) {
+    socket.emit('room:transferHost', { playerId: pid })
+  }
   function submitAnswer() {
     // Guesser does not submit an answer
     if (state?.phase === 'answering' && state.currentRound && myId === state.currentRound.guesserId) return
@@ -229,48 +359,58 @@ export default function App() {
   }
   function shuffleSeats() { socket.emit('room:shuffleSeats') }
   function endRound() { socket.emit('round:end') }
+  function reassignGuesser(pid: string) { socket.emit('round:reassignGuesser', { playerId: pid }) }
   function updateSettings(patch: Partial<RoomState['settings']>) { socket.emit('settings:update', patch) }
 
-  useEffect(() => {
-    const handler = () => socket.emit('room:leave')
-    window.addEventListener('beforeunload', handler)
-  // initialize myId from localStorage
-  try { const tok = localStorage.getItem('ordering_token'); if (tok) setMyId(tok) } catch {}
-  return () => window.removeEventListener('beforeunload', handler)
-  }, [socket])
-
   // Initialize ordering when becoming guesser; clear countdown when leaving answering
   useEffect(() => {
     if (!state) return
     // sync local settings controls
     setTimerSec(state.settings.roundTimerSec ?? '')
+    setHostGraceSec(state.settings.hostGraceSec ?? '')
+    setTurnTimerSec(state.settings.turnTimerSec ?? 0)
+    setMaxPlayers(state.settings.maxPlayers)
+    setMatchLength(state.settings.matchLength ?? 1)
+    setDeckMin(deckRange(state.settings).min)
+    setDeckMax(deckRange(state.settings).max)
     setProfanity(!!state.settings.profanityFilterEnabled)
-    if (state.phase === 'guessing' && state.currentRound && myId && state.currentRound.guesserId === myId) {
-      // default ordering = participants by seat order
+    setScoring(state.settings.scoringEnabled)
+    if (state.phase === 'guessing' && state.currentRound && ordersRound(state.currentRound, myId)) {
+      // default ordering = participants by seat order (party: everyone but me)
+      const party = state.currentRound.mode === 'party'
       const bySeat = [...state.players]
-        .filter(p => state.currentRound!.participants.includes(p.id))
+        .filter(p => state.currentRound!.participants.includes(p.id) && !(party && p.id === myId))
         .sort((a,b)=>a.seat-b.seat)
         .map(p=>p.id)
       setOrdering(prev => prev.length ? prev : bySeat)
     }
-    if (state.phase !== 'answering' && endsAt != null) setEndsAt(null)
+    if (state.phase !== 'answering' && state.phase !== 'promptVoting' && state.phase !== 'paused' && endsAt != null) setEndsAt(null)
   }, [state, myId])
 
-  // Smooth local timer tick
+  // Host change notices fade after a few seconds
+  useEffect(() => {
+    if (!hostChange) return
+    const id = window.setTimeout(() => setHostChange(null), 6000)
+    return () => window.clearTimeout(id)
+  }, [hostChange])
+
+  // Smooth local timer tick, on the synced clock like endsAt
   useEffect(() => {
     if (!endsAt) return
-    const id = window.setInterval(() => setNow(Date.now()), 100)
+    setNow(clock.now())
+    const id = window.setInterval(() => setNow(clock.now()), 100)
     return () => window.clearInterval(id)
-  }, [endsAt])
+  }, [endsAt, clock])
 
   // Update progress bar width without inline JSX styles
   useEffect(() => {
     if (!progressRef.current) return
-    if (!endsAt || !state) { progressRef.current.style.width = '0%'; return }
-    const total = (state.settings.roundTimerSec ?? 90) * 1000
-    const pct = Math.max(0, Math.min(100, ((endsAt - now) / total) * 100))
+    if (!endsAt || !timerMs) { progressRef.current.style.width = '0%'; return }
+    const pct = Math.max(0, Math.min(100, ((endsAt - now) / timerMs) * 100))
     progressRef.current.style.width = `${pct}%`
-  }, [endsAt, now, state])
+  }, [endsAt, now, timerMs])
+
+  const me = state?.players.find(p => p.id === myId)
 
   // Drag-and-drop (mobile-friendly) using dnd-kit
   const sensors = useSensors(
@@ -335,16 +475,23 @@ export default function App() {
           <div className="flex gap-2">
             <button className="button" onClick={createRoom} disabled={!connected}>Create room</button>
             <input className="input max-w-[120px]" value={roomCode} onChange={e => setRoomCode(e.target.value)} placeholder="CODE" />
-            <button className="button" onClick={joinRoom} disabled={!connected}>Join</button>
+            {needsPassword && (
+              <input className="input max-w-[160px]" type="password" value={password} maxLength={64} onChange={e => setPassword(e.target.value)} placeholder="Room password" />
+            )}
+            <button className="button" onClick={() => joinRoom()} disabled={!connected}>Join</button>
+            <button className="button" onClick={() => joinRoom(true)} disabled={!connected}>Watch</button>
           </div>
         ) : (
           <div className="flex items-center gap-2">
             <button className="button" onClick={leaveRoom}>Leave room</button>
             <button className="button" onClick={copyRoomLink}>Copy room link</button>
+            <button className="button" onClick={() => { setHistory(null); setHistoryOpen(true); socket.emit('history:get') }}>History</button>
             {copyMsg && <span className="text-xs text-green-400">{copyMsg}</span>}
           </div>
         )}
         {error && <div className="text-red-400 text-sm">{error}</div>}
+        {outdated && <button className="button" onClick={() => window.location.reload()}>Refresh</button>}
+        {historyOpen && state && <HistoryDrawer code={state.code} rounds={history} onClose={() => setHistoryOpen(false)} />}
       </section>
 
       {state && (
@@ -354,10 +501,32 @@ export default function App() {
             {state.stats && (
               <span className="text-neutral-300">Wins {state.stats.wins} · Losses {state.stats.losses}</span>
             )}
+            {matchProgress(state) && <span className="text-neutral-300">{matchProgress(state)}</span>}
           </div>
+          {hostChange && (
+            <div className="text-xs text-amber-300">
+              {hostChange.hostId === myId ? 'You are' : `${state.players.find(p => p.id === hostChange.hostId)?.name ?? 'Someone'} is`} now the host
+              {hostChange.reason === 'disconnected' ? ' (the previous host lost connection)' : hostChange.reason === 'left' ? ' (the previous host left)' : ''}.
+            </div>
+          )}
+          {state.closingAt && (
+            <div className="flex items-center gap-2 text-xs text-amber-300">
+              <span>This room closes in about a minute because nobody has done anything for a while.</span>
+              <button className="button" onClick={() => socket.emit('room:keepAlive')}>Keep it open</button>
+            </div>
+          )}
+          {me?.role === 'spectator' && (
+            <div className="text-xs text-neutral-400">
+              {me.queued ? 'Spectating this round — you will be dealt in at the next round.' : 'Spectating. The host can seat you between rounds.'}
+            </div>
+          )}
           {state.currentRound && (
             <div className="text-sm space-y-2">
-                  <div>Prompt: <span className="text-neutral-200">{state.currentRound.prompt}</span></div>
+                  <div>Prompt: <span className="text-neutral-200">{state.currentRound.prompt.text}</span></div>
+                  <div className="flex justify-between text-xs text-neutral-400">
+                    <span>Low ({deckRange(state.settings).min}): {state.currentRound.prompt.low}</span>
+                    <span>High ({deckRange(state.settings).max}): {state.currentRound.prompt.high}</span>
+                  </div>
             {state.phase === 'answering' && endsAt && (
                     <div className="h-2 w-full bg-neutral-800 rounded overflow-hidden">
               <div ref={progressRef} className="h-full bg-green-500 transition-[width] duration-100" />
@@ -365,31 +534,47 @@ export default function App() {
                   )}
       {state.phase === 'answering' && (
                 <div className="space-y-2">
+                  {myId && state.hostId === myId && (
+                    <div className="flex gap-2 items-center">
+                      {endsAt && <button className="button" onClick={() => socket.emit('timer:extend')}>+30s</button>}
+                      <button className="button" onClick={() => socket.emit('round:advance')}>Move on to guessing</button>
+                    </div>
+                  )}
                   {myNumber != null && (
                     <div className="text-center">
                       <div className="text-5xl font-extrabold text-neutral-100 leading-none">{myNumber}</div>
                       <div className="text-xs text-neutral-400 mt-1">Your number</div>
                     </div>
                   )}
-                  {myId !== state.currentRound.guesserId ? (
+                  {state.currentRound.turnOrder && (
+                    <TurnOrder players={state.players} order={state.currentRound.turnOrder} currentId={state.currentRound.currentAnswererId}
+                      answers={state.currentRound.answers} myId={myId} />
+                  )}
+                  {!myId || !state.currentRound.participants.includes(myId) ? (
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-neutral-400">Players are answering… Answered: {answeredIds.length}/{answererCount(state.currentRound)}</span>
+                      {endsAt && <span className="text-xs text-neutral-400">Time left: {Math.max(0, Math.ceil((endsAt - now)/1000))}s</span>}
+                    </div>
+                  ) : myId !== state.currentRound.guesserId ? (
                     <>
                       <textarea className="input h-24" value={myAnswer} maxLength={200} onChange={e => setMyAnswer(e.target.value)} placeholder="Your answer" />
                       <div className="flex items-center gap-2">
-                        <button className="button" onClick={submitAnswer} disabled={!myAnswer.trim()}>Submit answer</button>
-                        <span className="text-xs text-neutral-400">Answered: {answeredIds.length}/{Math.max(0, state.currentRound.participants.length - 1)}</span>
+                        <button className="button" onClick={submitAnswer}
+                          disabled={!myAnswer.trim() || (!!state.currentRound.turnOrder && state.currentRound.currentAnswererId !== myId)}>Submit answer</button>
+                        <span className="text-xs text-neutral-400">Answered: {answeredIds.length}/{answererCount(state.currentRound)}</span>
                         {endsAt && <span className="text-xs text-neutral-400">Time left: {Math.max(0, Math.ceil((endsAt - now)/1000))}s</span>}
                       </div>
                     </>
                   ) : (
                     <div className="flex items-center gap-2">
-                      <span className="text-xs text-neutral-400">Waiting for players… Answered: {answeredIds.length}/{Math.max(0, state.currentRound.participants.length - 1)}</span>
+                      <span className="text-xs text-neutral-400">Waiting for players… Answered: {answeredIds.length}/{answererCount(state.currentRound)}</span>
                       {endsAt && <span className="text-xs text-neutral-400">Time left: {Math.max(0, Math.ceil((endsAt - now)/1000))}s</span>}
                     </div>
                   )}
                 </div>
               )}
                   {state.phase === 'guessing' && state.currentRound && (
-                myId && state.currentRound.guesserId === myId ? (
+                ordersRound(state.currentRound, myId) ? (
                   <div className="space-y-2">
                     {myNumber != null && (
                       <div className="text-center">
@@ -406,14 +591,20 @@ export default function App() {
                   if (!p) return null
                   const ans = state.currentRound?.answers?.[p.id] ?? ''
                   return (
-                    <SortableItem key={pid} id={pid} name={p.name} answer={ans} ttsEnabled={supportsTTS && ttsEnabled} onSpeak={() => speakAnswerLine(p.name, ans)} />
+                    <SortableItem key={pid} id={pid} name={p.name} answer={ans} timedOut={!!state.currentRound?.timedOut?.includes(pid)} hidden={!!state.currentRound?.hiddenAnswers?.includes(pid)} ttsEnabled={supportsTTS && ttsEnabled} onSpeak={() => speakAnswerLine(p.name, ans)} />
                   )
                 })}
               </ul>
             </SortableContext>
           </DndContext>
                     <div className="flex gap-2 items-center">
-                      <button className="button" onClick={submitOrdering} disabled={ordering.length !== state.currentRound.participants.length}>Submit ordering</button>
+                      <button className="button" onClick={submitOrdering}
+                        disabled={ordering.length !== state.currentRound.participants.length - (state.currentRound.mode === 'party' ? 1 : 0)}>
+                        {state.currentRound.mode === 'party' && myId && state.currentRound.orderedIds?.includes(myId) ? 'Update ordering' : 'Submit ordering'}
+                      </button>
+                      {state.currentRound.mode === 'party' && (
+                        <span className="text-xs text-neutral-400">Submitted: {state.currentRound.orderedIds?.length ?? 0}/{state.currentRound.participants.length}</span>
+                      )}
                       {supportsTTS && ttsEnabled && (
                         <>
                           <button className="button" onClick={() => speakAllAnswers(ordering, state.players, state.currentRound?.answers)}>Read all</button>
@@ -422,6 +613,10 @@ export default function App() {
                       )}
                     </div>
                   </div>
+                ) : state.currentRound.mode === 'party' ? (
+                  <div className="text-xs text-neutral-400">
+                    Players are ordering each other… Submitted: {state.currentRound.orderedIds?.length ?? 0}/{state.currentRound.participants.length}
+                  </div>
                 ) : (
                       <div className="space-y-2">
                         <div className="text-xs text-neutral-400">Waiting for the guesser to submit an ordering…</div>
@@ -436,7 +631,10 @@ export default function App() {
                                   <div className="flex items-start justify-between gap-2">
                                     <div className="flex flex-col min-w-0">
                                       <span className="truncate">{p.name}</span>
-                                      <span className="text-[11px] text-neutral-400 max-w-[240px] truncate">{ans}</span>
+                                      <span className="text-[11px] text-neutral-400 max-w-[240px] truncate">
+                                        {ans || (state.currentRound?.hiddenAnswers?.includes(pid) && <span className="text-neutral-500">Hidden by host</span>)
+                                          || (state.currentRound?.timedOut?.includes(pid) && <span className="text-neutral-500">No answer</span>)}
+                                      </span>
                                     </div>
                                     {supportsTTS && ttsEnabled && ans && (
                                       <button title="Read answer" className="text-neutral-300 hover:text-white text-sm"
@@ -459,58 +657,237 @@ export default function App() {
                       </div>
                 )
               )}
+              {state.phase === 'paused' && state.pause && (
+                <div className="space-y-2">
+                  <div className="text-xs text-neutral-400">
+                    {state.players.find(p => p.id === state.pause!.guesserId)?.name ?? 'The guesser'} disconnected, so the round is paused.
+                    {!state.pause.expired && endsAt ? ` Waiting ${Math.max(0, Math.ceil((endsAt - now)/1000))}s for them to come back…` : ' They did not come back in time.'}
+                  </div>
+                  {myId && state.hostId === myId && state.pause.expired && (
+                    <div className="flex flex-wrap gap-2 items-center">
+                      {state.players.filter(p => p.connected && p.id !== state.pause!.guesserId && state.currentRound!.participants.includes(p.id)).map(p => (
+                        <button key={p.id} className="button" onClick={() => reassignGuesser(p.id)}>Make {p.name} guesser</button>
+                      ))}
+                      <button className="button" onClick={endRound}>Abandon round</button>
+                    </div>
+                  )}
+                </div>
+              )}
+              {state.phase === 'guessing' && state.currentRound.mode === 'party' && myId && state.hostId === myId && (
+                <button className="button" onClick={() => socket.emit('round:advance')}>Reveal now</button>
+              )}
+              {(state.phase === 'guessing' || state.phase === 'reveal') && myId && (
+                <AnswerModeration round={state.currentRound} players={state.players} myId={myId} isHost={state.hostId === myId}
+                  onReport={(pid) => socket.emit('answer:report', { playerId: pid })}
+                  onHide={(pid) => socket.emit('answer:hide', { playerId: pid })} />
+              )}
         {state.phase === 'reveal' && result && (
                 <Reveal
                   players={state.players}
                   numbers={result.numbers}
-                  submitted={result.submitted ?? []}
+                  submitted={result.party ? (result.party.find(s => s.playerId === myId)?.ordering ?? result.trueOrder) : (result.submitted ?? [])}
+                  neutral={!!result.party && !result.party.some(s => s.playerId === myId)}
           answers={state.currentRound?.answers ?? {}}
+                  scores={state.settings.scoringEnabled ? result.scores : undefined}
                   onDone={(win) => setRevealWin(win)}
                 />
               )}
-              {state.phase === 'reveal' && myId && state.hostId === myId && (
+              {state.phase === 'reveal' && result?.party && (
+                <PartyResults players={state.players} party={result.party} trueOrder={result.trueOrder} myId={myId} showPoints={state.settings.scoringEnabled} />
+              )}
+              {state.phase === 'reveal' && myId && state.hostId === myId && !state.match?.finished && (
                 <div className="pt-2">
                   <button className="button" onClick={() => socket.emit('round:next')}>Next round</button>
                 </div>
               )}
             </div>
           )}
+          {state.match?.finished && (state.phase === 'lobby' || state.phase === 'reveal') && (
+            <MatchSummary match={state.match}
+              onRematch={myId && state.hostId === myId ? () => socket.emit('match:rematch') : undefined} />
+          )}
           <ul className="grid grid-cols-2 gap-2">
-    {state.players.sort((a,b)=>a.seat-b.seat).map(p => (
+    {state.players.filter(p => p.role === 'player').sort((a,b)=>a.seat-b.seat).map(p => (
               <li key={p.id} className="p-2 rounded bg-neutral-800 border border-neutral-700 flex items-center justify-between">
                 <div className="flex items-center gap-2">
       <span className={`inline-block w-3 h-3 rounded-full ${colorClass(p.color)} ${p.connected ? '' : 'opacity-40'}`} />
                   <span>{p.name}</span>
                   <span className="text-xs text-neutral-500">(seat {p.seat}{!p.connected ? ', disconnected' : ''})</span>
+                  {state.hostId === p.id && <span className="text-xs text-amber-300">host</span>}
+                  {p.bot && <span className="text-xs text-sky-300">bot</span>}
+                  {state.settings.scoringEnabled && <span className="text-xs text-neutral-300">{p.score} pts</span>}
                 </div>
                 {myId && state.hostId === myId && p.id !== myId && (
-                  <button className="button ml-2" onClick={() => kick(p.id)}>Kick</button>
+                  <div className="flex gap-2 ml-2">
+                    {p.connected && !p.bot && <button className="button" onClick={() => transferHost(p.id)}>Make host</button>}
+                    <button className="button" onClick={() => kick(p.id)}>{p.bot ? 'Remove' : 'Kick'}</button>
+                    {!p.bot && <button className="button" onClick={() => ban(p.id)}>Ban</button>}
+                  </div>
                 )}
               </li>
             ))}
           </ul>
+          {state.players.some(p => p.role === 'spectator') && (
+            <div className="space-y-1">
+              <div className="text-xs text-neutral-400">Spectators</div>
+              <ul className="grid grid-cols-2 gap-2">
+                {state.players.filter(p => p.role === 'spectator').map(p => (
+                  <li key={p.id} className="p-2 rounded bg-neutral-900 border border-neutral-800 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className={`inline-block w-3 h-3 rounded-full ${colorClass(p.color)} ${p.connected ? '' : 'opacity-40'}`} />
+                      <span className="text-neutral-300">{p.name}</span>
+                      <span className="text-xs text-neutral-500">({p.queued ? 'next round' : 'watching'}{!p.connected ? ', disconnected' : ''})</span>
+                    </div>
+                    {myId && state.hostId === myId && (
+                      <div className="flex gap-2">
+                        {(state.phase === 'lobby' || state.phase === 'reveal') && (
+                          <button className="button" onClick={() => seatPlayer(p.id)}>Seat player</button>
+                        )}
+                        <button className="button" onClick={() => kick(p.id)}>Kick</button>
+                        <button className="button" onClick={() => ban(p.id)}>Ban</button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="flex flex-wrap gap-2 pt-2 items-center">
             {myId && state.hostId === myId && state.phase === 'lobby' && (
               <>
                 <input className="input" placeholder="Custom prompt (optional)" value={customPrompt} onChange={e => setCustomPrompt(e.target.value)} />
-                <button className="button" onClick={startRound}>Start round</button>
+                {customPrompt.trim() && (
+                  <>
+                    <input className="input max-w-[140px]" placeholder="Low label" value={customLow} maxLength={40} onChange={e => setCustomLow(e.target.value)} />
+                    <input className="input max-w-[140px]" placeholder="High label" value={customHigh} maxLength={40} onChange={e => setCustomHigh(e.target.value)} />
+                  </>
+                )}
+                {!state.match?.finished && <button className="button" onClick={startRound}>Start round</button>}
                 <button className="button" onClick={shuffleSeats}>Shuffle seats</button>
+                <button className="button" onClick={() => socket.emit('room:addBot')}>Add bot</button>
                 <div className="flex items-center gap-2 text-xs text-neutral-400">
                   <label className="flex items-center gap-1">
                     Timer (sec)
-                    <input type="number" min={10} max={300} className="input w-20" value={timerSec}
-                      onChange={e => setTimerSec(e.target.value === '' ? '' : Math.max(10, Math.min(300, Number(e.target.value))))}
+                    <input type="number" min={0} max={300} className="input w-20" value={timerSec} title="0 = no timer"
+                      onChange={e => setTimerSec(e.target.value === '' ? '' : Number(e.target.value) <= 0 ? 0 : Math.max(10, Math.min(300, Number(e.target.value))))}
                       onBlur={() => { if (typeof timerSec === 'number') updateSettings({ roundTimerSec: timerSec }) }} />
                   </label>
+                  <label className="flex items-center gap-1">
+                    Mode
+                    <select className="input h-9 py-1" value={state.settings.gameMode ?? 'classic'}
+                      onChange={e => updateSettings({ gameMode: e.target.value as GameMode })}>
+                      <option value="classic">Classic (one guesser)</option>
+                      <option value="party">Party (everyone guesses)</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Match
+                    <select className="input h-9 py-1" value={state.settings.matchMode ?? 'open'}
+                      onChange={e => updateSettings({ matchMode: e.target.value as MatchMode })}>
+                      <option value="open">Open play</option>
+                      <option value="rounds">Fixed rounds</option>
+                      <option value="guesses">Everyone guesses</option>
+                    </select>
+                  </label>
+                  {(state.settings.matchMode ?? 'open') !== 'open' && (
+                    <label className="flex items-center gap-1" title={state.settings.matchMode === 'rounds' ? 'Rounds in the match' : 'Times each player guesses'}>
+                      {state.settings.matchMode === 'rounds' ? 'Rounds' : 'Times each'}
+                      <input type="number" min={1} max={50} className="input w-16" value={matchLength}
+                        onChange={e => setMatchLength(e.target.value === '' ? '' : Math.max(1, Math.min(50, Number(e.target.value))))}
+                        onBlur={() => { if (typeof matchLength === 'number') updateSettings({ matchLength }) }} />
+                    </label>
+                  )}
+                  <label className="flex items-center gap-1">
+                    Answers
+                    <select className="input h-9 py-1" value={state.settings.answerMode ?? 'simultaneous'}
+                      onChange={e => updateSettings({ answerMode: e.target.value as AnswerMode })}>
+                      <option value="simultaneous">All at once</option>
+                      <option value="sequential">In turn</option>
+                    </select>
+                  </label>
+                  {state.settings.answerMode === 'sequential' && (
+                    <label className="flex items-center gap-1" title="0 = no limit">
+                      Turn timer (sec)
+                      <input type="number" min={0} max={120} className="input w-20" value={turnTimerSec}
+                        onChange={e => setTurnTimerSec(e.target.value === '' ? '' : Math.max(0, Math.min(120, Number(e.target.value))))}
+                        onBlur={() => { if (typeof turnTimerSec === 'number') updateSettings({ turnTimerSec }) }} />
+                    </label>
+                  )}
+                  <label className="flex items-center gap-1">
+                    Max players
+                    <input type="number" min={3} max={20} className="input w-16" value={maxPlayers}
+                      onChange={e => setMaxPlayers(e.target.value === '' ? '' : Math.max(3, Math.min(20, Number(e.target.value))))}
+                      onBlur={() => { if (typeof maxPlayers === 'number') updateSettings({ maxPlayers }) }} />
+                  </label>
+                  <label className="flex items-center gap-1" title="Range the hidden numbers are dealt from">
+                    Numbers
+                    <input type="number" min={0} max={999} className="input w-20" value={deckMin}
+                      onChange={e => setDeckMin(e.target.value === '' ? '' : Math.max(0, Math.min(999, Number(e.target.value))))}
+                      onBlur={() => { if (typeof deckMin === 'number') updateSettings({ deckMin }) }} />
+                    –
+                    <input type="number" min={1} max={1000} className="input w-20" value={deckMax}
+                      onChange={e => setDeckMax(e.target.value === '' ? '' : Math.max(1, Math.min(1000, Number(e.target.value))))}
+                      onBlur={() => { if (typeof deckMax === 'number') updateSettings({ deckMax }) }} />
+                  </label>
+                  <label className="flex items-center gap-1" title="Players may be dealt the same number">
+                    <input type="checkbox" checked={!!state.settings.allowTies} onChange={(e) => updateSettings({ allowTies: e.target.checked })} />
+                    Ties
+                  </label>
+                  <label className="flex items-center gap-1" title="How long a disconnected host keeps the role">
+                    Host grace (sec)
+                    <input type="number" min={5} max={300} className="input w-20" value={hostGraceSec}
+                      onChange={e => setHostGraceSec(e.target.value === '' ? '' : Math.max(5, Math.min(300, Number(e.target.value))))}
+                      onBlur={() => { if (typeof hostGraceSec === 'number') updateSettings({ hostGraceSec }) }} />
+                  </label>
                   <label className="flex items-center gap-1">
                     <input type="checkbox" checked={profanity} onChange={(e) => { setProfanity(e.target.checked); updateSettings({ profanityFilterEnabled: e.target.checked }) }} />
                     Profanity filter
                   </label>
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={scoring} onChange={(e) => { setScoring(e.target.checked); updateSettings({ scoringEnabled: e.target.checked }) }} />
+                    Scoring
+                  </label>
+                  {state.players.some(p => p.bot) && (
+                    <label className="flex items-center gap-1" title="Rounds a bot guessed don't count toward wins/losses">
+                      <input type="checkbox" checked={!!state.settings.excludeBotStats} onChange={(e) => updateSettings({ excludeBotStats: e.target.checked })} />
+                      Leave bot rounds out of stats
+                    </label>
+                  )}
                 </div>
               </>
             )}
             {/* End round button removed per requirement */}
           </div>
+          {myId && state.hostId === myId && (
+            <ModerationSettings state={state} onUpdate={updateSettings}
+              onPassword={(pw) => socket.emit('room:setPassword', { password: pw })}
+              onUnban={(id) => socket.emit('room:unban', { banId: id })} />
+          )}
+          {(state.phase === 'lobby' || state.phase === 'promptVoting') && (
+            <PromptSuggestions
+              vote={state.promptVote}
+              players={state.players}
+              myId={myId}
+              isHost={!!myId && state.hostId === myId}
+              voting={state.phase === 'promptVoting'}
+              secondsLeft={state.phase === 'promptVoting' && endsAt ? Math.max(0, Math.ceil((endsAt - now) / 1000)) : null}
+              onSuggest={(text, low, high) => socket.emit('prompt:suggest', { text, low, high })}
+              onWithdraw={(id) => socket.emit('prompt:withdraw', { suggestionId: id })}
+              onStartVote={() => socket.emit('vote:start')}
+              onVote={(id) => socket.emit('vote:cast', { suggestionId: id })}
+            />
+          )}
+          {state.phase === 'lobby' && packs.length > 0 && (
+            <PromptPackPicker
+              packs={packs}
+              selected={state.settings.promptPackIds}
+              upcoming={upcoming}
+              isHost={!!myId && state.hostId === myId}
+              onChange={(ids) => updateSettings({ promptPackIds: ids })}
+              onSkip={(id) => socket.emit('prompt:skip', { promptId: id })}
+              onReroll={() => socket.emit('prompt:reroll')}
+            />
+          )}
         </section>
       )}
 
@@ -523,11 +900,13 @@ type SortableItemProps = {
   id: string
   name: string
   answer: string
+  timedOut?: boolean // missed the answering deadline
+  hidden?: boolean // the host hid the answer
   ttsEnabled: boolean
   onSpeak: () => void
 }
 
-function SortableItem({ id, name, answer, ttsEnabled, onSpeak }: SortableItemProps) {
+function SortableItem({ id, name, answer, timedOut, hidden, ttsEnabled, onSpeak }: SortableItemProps) {
   const { setNodeRef, attributes, listeners, transform, transition, isDragging } = useSortable({ id })
   const localRef = React.useRef<HTMLLIElement | null>(null)
   const setRefs = (el: HTMLLIElement | null) => { setNodeRef(el); localRef.current = el }
@@ -545,7 +924,9 @@ function SortableItem({ id, name, answer, ttsEnabled, onSpeak }: SortableItemPro
       <div className="flex items-start justify-between gap-2">
         <div className="flex flex-col min-w-0">
           <span className="truncate">{name}</span>
-          <span className="text-[11px] text-neutral-400 max-w-[240px] truncate">{answer}</span>
+          <span className="text-[11px] text-neutral-400 max-w-[240px] truncate">
+            {answer || (hidden && <span className="text-neutral-500">Hidden by host</span>) || (timedOut && <span className="text-neutral-500">No answer</span>)}
+          </span>
         </div>
         {ttsEnabled && answer && (
           <button title="Read answer" className="text-neutral-300 hover:text-white text-sm"
@@ -559,14 +940,16 @@ function SortableItem({ id, name, answer, ttsEnabled, onSpeak }: SortableItemPro
 }
 
 type RevealProps = {
-  players: { id: string; name: string; seat: number; connected: boolean; color: string }[]
+  players: RoomState['players']
   numbers: Record<string, number>
   submitted: string[]
   answers: Record<string, string>
+  scores?: RoundScores
+  neutral?: boolean // the viewer has no ordering to judge (party spectator or non-submitter): show the true order without a verdict
   onDone?: (win: boolean) => void
 }
 
-function Reveal({ players, numbers, submitted, answers, onDone }: RevealProps) {
+function Reveal({ players, numbers, submitted, answers, scores, neutral, onDone }: RevealProps) {
   const [flipped, setFlipped] = useState<number>(-1)
   const [win, setWin] = useState<boolean | null>(null)
   const [openId, setOpenId] = useState<string | null>(null)
@@ -582,17 +965,14 @@ function Reveal({ players, numbers, submitted, answers, onDone }: RevealProps) {
       setFlipped(i)
       if (i >= submitted.length - 1) {
         window.clearInterval(id)
-        // compute win: strictly non-decreasing by submitted order
-        let ok = true
-        for (let k = 1; k < submitted.length; k++) {
-          if (numbers[submitted[k]] < numbers[submitted[k - 1]]) { ok = false; break }
-        }
+        // compute win: non-decreasing by submitted order, the same rule the server applies
+        const ok = isOrdered(submitted, numbers)
         setWin(ok)
-        onDone?.(ok)
+        if (!neutral) onDone?.(ok)
       }
     }, 700)
     return () => window.clearInterval(id)
-  }, [submitted, numbers])
+  }, [submitted, numbers, neutral])
 
   return (
     <div className="space-y-3 text-sm">
@@ -635,10 +1015,423 @@ function Reveal({ players, numbers, submitted, answers, onDone }: RevealProps) {
           )
         })}
       </ul>
-      {win != null && (
+      {win != null && (neutral ? (
+        <div className="mt-1 text-sm text-neutral-300">The true order.</div>
+      ) : (
         <div className={`mt-1 text-sm ${win ? 'text-green-400' : 'text-red-400'}`}>
           {win ? 'Win! Full correct ordering.' : 'Not quite. Sequence had mistakes.'}
         </div>
+      ))}
+      {win != null && scores && (
+        <Leaderboard players={players} scores={scores} />
+      )}
+    </div>
+  )
+}
+
+// Sequential answering: everyone's place in the turn order, the current turn highlighted, answers as they come in
+function TurnOrder({ players, order, currentId, answers, myId }: {
+  players: RoomState['players']; order: string[]; currentId?: string; answers: Record<string, string>; myId: string | null
+}) {
+  const currentIdx = currentId ? order.indexOf(currentId) : order.length
+  return (
+    <ol className="space-y-1">
+      {order.map((pid, i) => {
+        const p = players.find(pp => pp.id === pid)
+        const current = pid === currentId
+        return (
+          <li key={pid} className={`px-3 py-1 rounded border flex items-start gap-2 ${current ? 'bg-green-900/40 border-green-500' : 'bg-neutral-800 border-neutral-700'}`}>
+            <span className="text-xs text-neutral-500 w-4">{i + 1}.</span>
+            <span className="shrink-0">{pid === myId ? 'You' : p?.name ?? 'Gone'}</span>
+            <span className="text-xs text-neutral-300 min-w-0 break-words">
+              {answers[pid] || (current ? 'answering…' : i < currentIdx ? <span className="text-neutral-500">skipped</span> : '')}
+            </span>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
+
+// Party reveal: every player's ordering side by side with the true order, best read first
+function PartyResults({ players, party, trueOrder, myId, showPoints }: {
+  players: RoomState['players']; party: PartyScore[]; trueOrder: string[]; myId: string | null; showPoints: boolean
+}) {
+  const name = (id: string) => players.find(p => p.id === id)?.name ?? '?'
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="text-neutral-300">Who read the table best</div>
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate border-spacing-1">
+          <thead>
+            <tr className="text-neutral-500">
+              <th className="text-left">Player</th>
+              {trueOrder.slice(1).map((_, i) => <th key={i}>{i + 1}</th>)}
+              <th>Exact</th>
+              <th title="Pairs placed the wrong way round">Swaps</th>
+              {showPoints && <th>Pts</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {party.map(s => {
+              const truth = trueOrder.filter(id => id !== s.playerId)
+              return (
+                <tr key={s.playerId}>
+                  <td className={`pr-2 whitespace-nowrap ${s.playerId === myId ? 'text-neutral-100 font-semibold' : 'text-neutral-300'}`}>{name(s.playerId)}</td>
+                  {s.ordering.map((id, i) => (
+                    <td key={id} className={`px-2 py-1 rounded whitespace-nowrap ${truth[i] === id ? 'bg-green-900/50 text-green-300' : 'bg-neutral-800 text-neutral-300'}`}>{name(id)}</td>
+                  ))}
+                  <td className="text-center">{s.exact}</td>
+                  <td className="text-center">{s.kendallTau}</td>
+                  {showPoints && <td className="text-center">+{s.points}</td>}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+type AnswerModerationProps = {
+  round: Round
+  players: RoomState['players']
+  myId: string
+  isHost: boolean
+  onReport: (playerId: string) => void
+  onHide: (playerId: string) => void
+}
+
+// Anyone can flag an answer; the host sees the flags and can hide an answer from everyone
+function AnswerModeration({ round, players, myId, isHost, onReport, onHide }: AnswerModerationProps) {
+  const authors = round.participants.filter(id => round.answers[id] || round.hiddenAnswers?.includes(id))
+  if (authors.length === 0) return null
+  const reported = round.reported?.filter(id => !round.hiddenAnswers?.includes(id)).length ?? 0
+  return (
+    <details className="text-xs text-neutral-400">
+      <summary className="cursor-pointer">
+        {isHost ? 'Moderate answers' : 'Report an answer'}
+        {isHost && reported > 0 && <span className="text-amber-300"> · {reported} reported</span>}
+      </summary>
+      <ul className="mt-1 space-y-1">
+        {authors.map(id => {
+          const hidden = !!round.hiddenAnswers?.includes(id)
+          const flagged = !!round.reported?.includes(id)
+          return (
+            <li key={id} className="flex items-center gap-2">
+              <span className="text-neutral-300">{players.find(p => p.id === id)?.name ?? '?'}:</span>
+              <span className="truncate max-w-[240px]">{hidden ? 'Hidden by host' : round.answers[id]}</span>
+              {flagged && !hidden && <span className="text-amber-300">reported</span>}
+              {!hidden && !flagged && id !== myId && <button className="button" onClick={() => onReport(id)}>Report</button>}
+              {!hidden && isHost && <button className="button" onClick={() => onHide(id)}>Hide</button>}
+            </li>
+          )
+        })}
+      </ul>
+    </details>
+  )
+}
+
+type ModerationSettingsProps = {
+  state: RoomState
+  onUpdate: (patch: Partial<RoomState['settings']>) => void
+  onPassword: (password: string) => void
+  onUnban: (banId: string) => void
+}
+
+// Host-only: lock the room, set a password, block words and lift bans
+function ModerationSettings({ state, onUpdate, onPassword, onUnban }: ModerationSettingsProps) {
+  const [password, setPassword] = useState('')
+  const [words, setWords] = useState((state.settings.blockedWords ?? []).join(', '))
+  useEffect(() => { setWords((state.settings.blockedWords ?? []).join(', ')) }, [state.settings.blockedWords])
+  return (
+    <div className="flex flex-wrap gap-2 items-center text-xs text-neutral-400">
+      <label className="flex items-center gap-1" title="New players can't join; everyone already here can still reconnect">
+        <input type="checkbox" checked={!!state.settings.locked} onChange={(e) => onUpdate({ locked: e.target.checked })} />
+        Lock room
+      </label>
+      <label className="flex items-center gap-1">
+        Password
+        <input className="input w-32" type="password" value={password} maxLength={64} onChange={e => setPassword(e.target.value)}
+          placeholder={state.passwordProtected ? 'set' : 'none'} />
+      </label>
+      <button className="button" disabled={!password.trim()} onClick={() => { onPassword(password); setPassword('') }}>Set</button>
+      {state.passwordProtected && <button className="button" onClick={() => onPassword('')}>Remove password</button>}
+      <label className="flex items-center gap-1" title="Comma-separated; masked in names, answers and suggestions">
+        Blocked words
+        <input className="input w-56" value={words} onChange={e => setWords(e.target.value)}
+          onBlur={() => onUpdate({ blockedWords: words.split(',').map(w => w.trim()).filter(Boolean) })} />
+      </label>
+      {(state.bans ?? []).map(b => (
+        <span key={b.id} className="flex items-center gap-1">
+          Banned: <span className="text-neutral-300">{b.name}</span>
+          <button className="button" onClick={() => onUnban(b.id)}>Unban</button>
+        </span>
+      ))}
+    </div>
+  )
+}
+
+// End of match: every round's prompt, answers and orders, plus the closest and furthest reads
+function MatchSummary({ match, onRematch }: { match: Match; onRematch?: () => void }) {
+  const describe = (read: Match['best']) => {
+    const name = read && match.rounds.find(r => r.index === read.roundIndex)?.names[read.playerId]
+    return read && `${name ?? '?'} in round ${read.roundIndex + 1} (${read.exact} exact, ${read.kendallTau} swaps)`
+  }
+  return (
+    <div className="space-y-3 text-sm border border-neutral-700 rounded p-3">
+      <div className="flex items-center justify-between">
+        <div className="text-neutral-100 font-semibold">Match over</div>
+        {onRematch && <button className="button" onClick={onRematch}>Rematch</button>}
+      </div>
+      <div className="text-xs text-neutral-400 space-y-1">
+        {match.best && <div>Best read: <span className="text-green-300">{describe(match.best)}</span></div>}
+        {match.worst && <div>Worst read: <span className="text-red-300">{describe(match.worst)}</span></div>}
+      </div>
+      <ol className="space-y-2">
+        {match.rounds.map(r => <RoundRecordItem key={r.id} record={r} />)}
+      </ol>
+    </div>
+  )
+}
+
+// One past round: prompt, who guessed, every answer with its number, and the true vs submitted order
+function RoundRecordItem({ record: r }: { record: RoundRecord }) {
+  const name = (id: string) => r.names[id] ?? '?'
+  return (
+    <li className="p-2 rounded bg-neutral-800 border border-neutral-700 space-y-1">
+      <div className="text-neutral-200">
+        Round {r.index + 1}: {r.prompt.text}
+        <span className="text-xs text-neutral-400"> · {r.mode === 'party' ? 'everyone guessed' : `${name(r.guesserId)} guessed`}{r.isWin != null && (r.isWin ? ', won' : ', lost')}</span>
+      </div>
+      <ul className="text-xs text-neutral-400">
+        {r.trueOrder.filter(id => r.answers[id]).map(id => (
+          <li key={id}>{name(id)} ({r.numbers[id]}): {r.answers[id]}</li>
+        ))}
+      </ul>
+      <div className="text-xs text-neutral-300">True order: {r.trueOrder.map(name).join(' → ')}</div>
+      {r.submitted && <div className="text-xs text-neutral-300">Submitted: {r.submitted.map(name).join(' → ')}</div>}
+      {r.mode === 'party' && r.reads.length > 0 && (
+        <div className="text-xs text-neutral-400">Best read {name(r.reads[0].playerId)} · worst read {name(r.reads[r.reads.length - 1].playerId)}</div>
+      )}
+    </li>
+  )
+}
+
+// Slide-over list of the room's past rounds, exportable as JSON or Markdown
+function HistoryDrawer({ code, rounds, onClose }: { code: string; rounds: RoundRecord[] | null; onClose: () => void }) {
+  return (
+    <aside className="fixed inset-y-0 right-0 z-20 w-full max-w-md overflow-y-auto bg-neutral-900 border-l border-neutral-700 p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-neutral-100 font-semibold">History</div>
+        <div className="flex gap-2">
+          <button className="button" disabled={!rounds?.length}
+            onClick={() => download(`sequencing-${code}.json`, JSON.stringify({ code, rounds }, null, 2), 'application/json')}>JSON</button>
+          <button className="button" disabled={!rounds?.length}
+            onClick={() => download(`sequencing-${code}.md`, historyMarkdown(code, rounds ?? []), 'text/markdown')}>Markdown</button>
+          <button className="button" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      {rounds === null && <div className="text-neutral-400">Loading…</div>}
+      {rounds?.length === 0 && <div className="text-neutral-400">No rounds played yet.</div>}
+      <ol className="space-y-2">
+        {[...(rounds ?? [])].reverse().map(r => <RoundRecordItem key={`${r.id}-${r.endedAt}`} record={r} />)}
+      </ol>
+    </aside>
+  )
+}
+
+function historyMarkdown(code: string, rounds: RoundRecord[]): string {
+  const lines = [`# Sequencing room ${code}`, '']
+  for (const r of rounds) {
+    const name = (id: string) => r.names[id] ?? '?'
+    lines.push(`## Round ${r.index + 1}: ${r.prompt.text}`, '', `${r.prompt.low} → ${r.prompt.high}`, '')
+    lines.push(r.mode === 'party' ? '- Everyone guessed' : `- Guesser: ${name(r.guesserId)}${r.isWin != null ? (r.isWin ? ' (won)' : ' (lost)') : ''}`)
+    lines.push(`- True order: ${r.trueOrder.map(id => `${name(id)} (${r.numbers[id]})`).join(' → ')}`)
+    if (r.submitted) lines.push(`- Submitted: ${r.submitted.map(name).join(' → ')}`)
+    for (const s of r.party ?? []) lines.push(`- ${name(s.playerId)} ordered: ${s.ordering.map(name).join(' → ')} (${s.exact} exact, ${s.kendallTau} swaps)`)
+    lines.push('', '| Player | Number | Answer |', '| --- | --- | --- |')
+    for (const id of r.trueOrder) lines.push(`| ${name(id)} | ${r.numbers[id]} | ${(r.answers[id] || '—').replace(/\|/g, '\\|')} |`)
+    lines.push('')
+  }
+  return lines.join('\n')
+}
+
+function download(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+// Cumulative scores (live from room state) with this round's deltas alongside
+function Leaderboard({ players, scores }: { players: RoomState['players']; scores: RoundScores }) {
+  const ranked = [...players].sort((a, b) => b.score - a.score || a.seat - b.seat)
+  const guesser = players.find(p => p.id === scores.guesser.playerId)
+  return (
+    <div className="space-y-2">
+      {guesser && (
+        <div className="text-xs text-neutral-400">
+          {guesser.name} placed {scores.guesser.correct} correctly
+          {scores.guesser.perfectBonus > 0 && <> · perfect bonus +{scores.guesser.perfectBonus}</>}
+        </div>
+      )}
+      <ol className="space-y-1">
+        {ranked.map((p, i) => {
+          const delta = scores.deltas[p.id]
+          return (
+            <li key={p.id} className="flex items-center justify-between px-3 py-1 rounded bg-neutral-800 border border-neutral-700">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-neutral-500 w-4">{i + 1}.</span>
+                <span className={`inline-block w-3 h-3 rounded-full ${colorClass(p.color)}`} />
+                <span>{p.name}</span>
+              </div>
+              <div className="flex items-center gap-3">
+                {delta != null && (
+                  <span className={`text-xs ${delta > 0 ? 'text-green-400' : 'text-neutral-500'}`}>+{delta}</span>
+                )}
+                <span className="font-semibold text-neutral-100">{p.score}</span>
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
+
+type PromptPackPickerProps = {
+  packs: PromptPackSummary[]
+  selected: string[]
+  upcoming: Prompt[]
+  isHost: boolean
+  onChange: (ids: string[]) => void
+  onSkip: (promptId: string) => void
+  onReroll: () => void
+}
+
+// Lobby pack selection; the host additionally sees (and can skip) the upcoming prompts
+function PromptPackPicker({ packs, selected, upcoming, isHost, onChange, onSkip, onReroll }: PromptPackPickerProps) {
+  function toggle(id: string, on: boolean) {
+    const next = on ? [...selected, id] : selected.filter(s => s !== id)
+    if (next.length > 0) onChange(next)
+  }
+  return (
+    <div className="space-y-2 pt-2 text-sm">
+      <div className="text-xs text-neutral-400">Prompt packs</div>
+      <ul className="grid grid-cols-2 gap-2">
+        {packs.map(pack => (
+          <li key={pack.id} className="p-2 rounded bg-neutral-800 border border-neutral-700">
+            <label className="flex items-start gap-2">
+              <input type="checkbox" checked={selected.includes(pack.id)} disabled={!isHost}
+                onChange={(e) => toggle(pack.id, e.target.checked)} />
+              <div className="flex flex-col min-w-0">
+                <span>{pack.title}</span>
+                <span className="text-[11px] text-neutral-400 truncate">
+                  {pack.rating} · {pack.promptCount} prompts{pack.tags.length > 0 ? ` · ${pack.tags.join(', ')}` : ''}
+                </span>
+              </div>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {isHost && upcoming.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-neutral-400">Upcoming prompts (only you can see these)</span>
+            <button className="button" onClick={onReroll}>Reroll</button>
+          </div>
+          <ol className="space-y-1">
+            {upcoming.map(p => (
+              <li key={p.id} className="flex items-center justify-between gap-2 px-3 py-1 rounded bg-neutral-900 border border-neutral-800">
+                <div className="flex flex-col min-w-0">
+                  <span className="truncate">{p.text}</span>
+                  <span className="text-[11px] text-neutral-500 truncate">{p.low} → {p.high}</span>
+                </div>
+                <button className="button" onClick={() => onSkip(p.id)}>Skip</button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  )
+}
+
+type PromptSuggestionsProps = {
+  vote: PromptVote
+  players: RoomState['players']
+  myId: string | null
+  isHost: boolean
+  voting: boolean
+  secondsLeft: number | null
+  onSuggest: (text: string, low: string, high: string) => void
+  onWithdraw: (suggestionId: string) => void
+  onStartVote: () => void
+  onVote: (suggestionId: string) => void
+}
+
+// Lobby prompt suggestions from every seated player, then a short vote for the next round's prompt
+function PromptSuggestions({ vote, players, myId, isHost, voting, secondsLeft, onSuggest, onWithdraw, onStartVote, onVote }: PromptSuggestionsProps) {
+  const [text, setText] = useState('')
+  const [low, setLow] = useState('')
+  const [high, setHigh] = useState('')
+  const [myVote, setMyVote] = useState<string | null>(null)
+  const me = players.find(p => p.id === myId)
+  const canSuggest = !voting && me?.role === 'player'
+  const winner = vote.suggestions.find(s => s.id === vote.winnerId)
+
+  useEffect(() => { if (!voting) setMyVote(null) }, [voting])
+
+  function submit() {
+    onSuggest(text, low, high)
+    setText(''); setLow(''); setHigh('')
+  }
+
+  return (
+    <div className="space-y-2 pt-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-neutral-400">
+          {voting ? `Vote for the next prompt${secondsLeft != null ? ` · ${secondsLeft}s` : ''} · ${vote.votedIds.length} voted` : 'Prompt suggestions'}
+        </span>
+        {isHost && !voting && vote.suggestions.length > 0 && (
+          <button className="button" onClick={onStartVote}>Start vote</button>
+        )}
+      </div>
+      {winner && !voting && (
+        <div className="text-xs text-green-400">Next prompt (voted): {winner.text}</div>
+      )}
+      {vote.suggestions.length > 0 && (
+        <ul className="space-y-1">
+          {vote.suggestions.map(s => {
+            const author = players.find(p => p.id === s.authorId)
+            return (
+              <li key={s.id} className={`flex items-center justify-between gap-2 px-3 py-1 rounded bg-neutral-800 border ${myVote === s.id || s.id === vote.winnerId ? 'border-green-500' : 'border-neutral-700'}`}>
+                <div className="flex flex-col min-w-0">
+                  <span className="truncate">{s.text}</span>
+                  <span className="text-[11px] text-neutral-500 truncate">{s.low} → {s.high}{author ? ` · by ${author.name}` : ''}{!voting && s.votes > 0 ? ` · ${s.votes} votes` : ''}</span>
+                </div>
+                {voting && me?.role === 'player' && (
+                  <button className="button" onClick={() => { setMyVote(s.id); onVote(s.id) }}>{myVote === s.id ? 'Voted' : 'Vote'}</button>
+                )}
+                {!voting && (s.authorId === myId || isHost) && (
+                  <button className="button" onClick={() => onWithdraw(s.id)}>Remove</button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      {canSuggest && (
+        <div className="flex flex-wrap gap-2 items-center">
+          <input className="input" placeholder="Suggest a prompt" value={text} maxLength={140} onChange={e => setText(e.target.value)} />
+          <input className="input max-w-[140px]" placeholder="Low label" value={low} maxLength={40} onChange={e => setLow(e.target.value)} />
+          <input className="input max-w-[140px]" placeholder="High label" value={high} maxLength={40} onChange={e => setHigh(e.target.value)} />
+          <button className="button" onClick={submit} disabled={text.trim().length < 3 || !low.trim() || !high.trim()}>Suggest</button>
+        </div>
       )}
     </div>
   )
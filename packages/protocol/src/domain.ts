@@ -0,0 +1,178 @@
+// Domain types shared by the realtime server and the web client.
+// Server-only bookkeeping (sockets, timers, ballots, prompt queues) lives in services/realtime.
+
+export type RoomCode = string // 6 chars A-Z2-9
+export type PlayerId = string // opaque public id, never usable to resume a seat
+
+export type Player = {
+  id: PlayerId
+  name: string
+  role: 'player' | 'spectator'
+  queued?: boolean // spectator parked mid-round; seated automatically at the next round:start
+  seat: number // 0..N-1 around the table; -1 while spectating
+  lastGuessedRound?: number // undefined means never guesser
+  connected: boolean // bots always are
+  bot?: boolean // added by the host with room:addBot; answers and guesses on its own
+  color: string
+  score: number // cumulative, only changes when settings.scoringEnabled
+}
+
+export type RoomSettings = {
+  maxPlayers: number
+  scoringEnabled: boolean
+  roundTimerSec?: number // 0 means no answering timer
+  hostGraceSec?: number // how long a disconnected host keeps the role before it passes on
+  answerMode?: AnswerMode // default 'simultaneous'
+  gameMode?: GameMode // default 'classic'
+  turnTimerSec?: number // sequential mode: seconds per turn; 0 or unset means no turn timer
+  deckMin?: number // lowest number dealt, default 1
+  deckMax?: number // highest number dealt, default 10
+  allowTies?: boolean // numbers may repeat; otherwise a round needs at least one number per player
+  matchMode?: MatchMode // default 'open'
+  matchLength?: number // rounds in a match, or guesses per player
+  excludeBotStats?: boolean // rounds a bot guessed don't count toward wins/losses
+  profanityFilterEnabled?: boolean // masks a built-in list of swear words
+  blockedWords?: string[] // the host's own list, masked whether or not the filter is on
+  locked?: boolean // new players can't join (seated players still resume)
+  promptPackIds: string[]
+}
+
+// simultaneous: everyone answers at once, hidden until guessing; sequential: one at a time in seat order, shown as given
+export type AnswerMode = 'simultaneous' | 'sequential'
+
+// classic: one guesser orders everyone; party: every participant orders everyone else
+export type GameMode = 'classic' | 'party'
+
+// open: rounds go on forever; rounds: the match ends after matchLength rounds;
+// guesses: it ends once every seated player has guessed matchLength times (party rounds count for everyone)
+export type MatchMode = 'open' | 'rounds' | 'guesses'
+
+export type ContentRating = 'family' | 'teen' | 'mature'
+
+export type Prompt = {
+  id: string // `${packId}/${localId}`; custom prompts use `custom/<n>`
+  packId: string
+  text: string
+  low: string // label for the lowest number
+  high: string // label for the highest number
+}
+
+export type PromptPackSummary = {
+  id: string
+  title: string
+  rating: ContentRating
+  tags: string[]
+  promptCount: number
+}
+
+// A player-written prompt waiting in the lobby; `votes` is only filled in once voting closes
+export type PromptSuggestion = Prompt & { authorId: PlayerId; votes: number }
+
+export type PromptVote = {
+  suggestions: PromptSuggestion[]
+  endsAt?: number // set while phase === 'promptVoting'
+  votedIds: PlayerId[] // who has voted (not what)
+  winnerId?: string // suggestion round:start will use next
+}
+
+export type RoundScores = {
+  deltas: Record<PlayerId, number>
+  guesser: { playerId: PlayerId; correct: number; perfectBonus: number }
+  withinOne: PlayerId[] // answerers placed within ±1 of their true position
+}
+
+// One player's ordering in a party round, scored against the true order of the players they placed
+export type PartyScore = {
+  playerId: PlayerId
+  ordering: PlayerId[]
+  exact: number // players placed at their true position
+  kendallTau: number // pairs placed the wrong way round; 0 is a perfect read
+  points: number // added to the player's score when scoringEnabled
+}
+
+export type Round = {
+  id: string
+  index: number // 0-based
+  mode?: GameMode // default 'classic'
+  guesserId: PlayerId // '' in party rounds: everyone guesses
+  prompt: Prompt
+  numbers: Record<PlayerId, number> // server-only; always empty in room:state (see deal:self)
+  answers: Record<PlayerId, string> // empty in room:state until guessing (sequential mode: filled in as each answer is given)
+  orderingGuess?: PlayerId[]
+  orderingPreview?: PlayerId[]
+  participants: PlayerId[]
+  turnOrder?: PlayerId[] // sequential mode: answerers clockwise from the guesser's left
+  currentAnswererId?: PlayerId // sequential mode: whose turn it is
+  timedOut?: PlayerId[] // answerers who had nothing in when answering closed; shown as "No answer"
+  orderedIds?: PlayerId[] // party: who has submitted an ordering
+  orderings?: Record<PlayerId, PlayerId[]> // party: server-only until reveal
+  partyScores?: PartyScore[] // party: set at reveal, best read first
+  scores?: RoundScores
+  reported?: PlayerId[] // authors whose answer someone reported
+  hiddenAnswers?: PlayerId[] // authors whose answer the host hid; left out of `answers` and the history
+}
+
+// How well one ordering matched the true order (classic: the guesser's; party: one per participant)
+export type MatchRead = {
+  roundIndex: number
+  playerId: PlayerId
+  exact: number
+  kendallTau: number
+}
+
+// A revealed round as kept in the room history and the match summary
+export type RoundRecord = {
+  id: string
+  index: number
+  endedAt: number
+  mode?: GameMode
+  prompt: Prompt
+  guesserId: PlayerId // '' in party rounds
+  names: Record<PlayerId, string> // participants as they were called, so the record outlives them leaving
+  answers: Record<PlayerId, string>
+  numbers: Record<PlayerId, number> // already revealed
+  trueOrder: PlayerId[]
+  submitted?: PlayerId[] // classic rounds
+  isWin?: boolean // classic rounds
+  scores?: RoundScores // when scoringEnabled
+  party?: PartyScore[] // party rounds: everyone's ordering
+  reads: MatchRead[] // best first
+}
+
+export type Match = {
+  rounds: RoundRecord[]
+  guesses: Record<PlayerId, number> // times each player has guessed this match
+  finished: boolean
+  best?: MatchRead // set once finished: the closest and furthest reads of the match
+  worst?: MatchRead
+}
+
+// A banned player as the host sees it; the identity it is keyed on stays on the server
+export type Ban = { id: string; name: string }
+
+export type Phase = 'lobby' | 'promptVoting' | 'answering' | 'guessing' | 'paused' | 'reveal'
+
+// Set while phase === 'paused': the guesser dropped mid-round and everything waits for them to come back
+export type RoundPause = {
+  guesserId: PlayerId
+  resumePhase: 'answering' | 'guessing'
+  graceEndsAt: number
+  expired: boolean // grace is over: the host may reassign the guesser or end the round
+  remainingMs?: number // answering time left when the pause began; the timer restarts from here
+}
+
+export type RoomState = {
+  code: RoomCode
+  hostId: PlayerId
+  players: Player[]
+  settings: RoomSettings
+  phase: Phase
+  currentRound?: Round
+  pause?: RoundPause
+  match?: Match // set from the first round of a match while matchMode is not 'open'
+  stats?: { wins: number; losses: number }
+  promptVote: PromptVote
+  bans?: Ban[]
+  passwordProtected?: boolean // joining needs the room password
+  closingAt?: number // set shortly before the room closes for inactivity; any action clears it
+}
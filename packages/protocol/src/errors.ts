@@ -0,0 +1,41 @@
+// Every `code` the server can send in an `error` event
+export const ErrorCode = {
+  INVALID_PAYLOAD: 'INVALID_PAYLOAD',
+  PROTOCOL_MISMATCH: 'PROTOCOL_MISMATCH',
+  RATE_LIMITED: 'RATE_LIMITED',
+  ROOM_NOT_FOUND: 'ROOM_NOT_FOUND',
+  ROOM_FULL: 'ROOM_FULL',
+  ROOM_UNAVAILABLE: 'ROOM_UNAVAILABLE', // the node hosting the room is unreachable; retry shortly
+  SERVER_FULL: 'SERVER_FULL', // the server's cap on rooms or connections is reached; try again later
+  NOT_HOST: 'NOT_HOST',
+  NOT_PLAYER: 'NOT_PLAYER',
+  NOT_GUESSER: 'NOT_GUESSER',
+  NOT_AUTHOR: 'NOT_AUTHOR',
+  CANNOT_KICK_HOST: 'CANNOT_KICK_HOST',
+  NOT_ENOUGH_PLAYERS: 'NOT_ENOUGH_PLAYERS',
+  TOO_MANY_PLAYERS: 'TOO_MANY_PLAYERS',
+  ROUND_IN_PROGRESS: 'ROUND_IN_PROGRESS',
+  GUESSER_NO_ANSWER: 'GUESSER_NO_ANSWER',
+  INVALID_ORDERING: 'INVALID_ORDERING',
+  TOO_MANY_SUGGESTIONS: 'TOO_MANY_SUGGESTIONS',
+  INVALID_SUGGESTION: 'INVALID_SUGGESTION',
+  NO_SUGGESTIONS: 'NO_SUGGESTIONS',
+  VOTE_IN_PROGRESS: 'VOTE_IN_PROGRESS',
+  NOT_YOUR_TURN: 'NOT_YOUR_TURN',
+  GRACE_PERIOD: 'GRACE_PERIOD', // the disconnected guesser may still come back
+  MATCH_OVER: 'MATCH_OVER', // the match has finished; the host starts a rematch
+  BANNED: 'BANNED',
+  ROOM_LOCKED: 'ROOM_LOCKED',
+  PASSWORD_REQUIRED: 'PASSWORD_REQUIRED', // ask for the password and join again
+  WRONG_PASSWORD: 'WRONG_PASSWORD',
+} as const
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode]
+
+export type PayloadIssue = { path: string; message: string }
+
+export type ErrorPayload = {
+  code: ErrorCode
+  message: string
+  details?: PayloadIssue[] // only for INVALID_PAYLOAD
+}
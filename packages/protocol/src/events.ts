@@ -0,0 +1,96 @@
+import type { PartyScore, PlayerId, Prompt, PromptPackSummary, RoomCode, RoomSettings, RoomState, RoundRecord, RoundScores } from './domain.js'
+import type { ErrorPayload } from './errors.js'
+
+// Bump whenever an event or payload changes incompatibly; checked in session:hello
+export const PROTOCOL_VERSION = 2
+
+// Events without arguments still accept an (ignored) empty object
+type NoPayload = Record<string, never> | undefined
+
+// Client -> Server payloads
+// clientId: a random id the browser keeps across rooms and sessions; room bans are keyed on it
+export type SessionHelloPayload = { token?: string; protocolVersion: number; clientId?: string }
+export type RoomCreatePayload = { displayName?: string }
+export type RoomJoinPayload = { roomCode: string; displayName?: string; token?: string | null; spectate?: boolean; password?: string }
+export type SettingsUpdatePayload = Partial<RoomSettings>
+export type RoundStartPayload = { prompt?: string; low?: string; high?: string }
+export type PromptSuggestPayload = { text: string; low: string; high: string }
+export type OrderingPayload = { ordering: PlayerId[] }
+
+export type ClientToServerEvents = {
+  'session:hello': (p: SessionHelloPayload) => void
+  'clock:ping': (p: { t0: number }) => void // clock sync, after session:hello; t0 is the client's clock, echoed in clock:pong
+  'room:create': (p: RoomCreatePayload) => void
+  'room:join': (p: RoomJoinPayload) => void
+  'room:leave': (p?: NoPayload) => void
+  'settings:update': (p: SettingsUpdatePayload) => void
+  'room:kick': (p: { playerId: PlayerId }) => void
+  'room:ban': (p: { playerId: PlayerId }) => void // host: kick, and keep that browser from joining again
+  'room:unban': (p: { banId: string }) => void // host
+  'room:setPassword': (p: { password: string }) => void // host; '' removes it
+  'room:seatPlayer': (p: { playerId: PlayerId }) => void
+  'room:shuffleSeats': (p?: NoPayload) => void
+  'room:transferHost': (p: { playerId: PlayerId }) => void // host
+  'room:addBot': (p?: NoPayload) => void // host, between rounds; remove bots with room:kick
+  'room:keepAlive': (p?: NoPayload) => void // anyone in the room: counts as activity, e.g. after a closing warning
+  'round:start': (p: RoundStartPayload) => void
+  'prompt:skip': (p: { promptId: string }) => void
+  'prompt:reroll': (p?: NoPayload) => void
+  'prompt:suggest': (p: PromptSuggestPayload) => void
+  'prompt:withdraw': (p: { suggestionId: string }) => void
+  'vote:start': (p?: NoPayload) => void
+  'vote:cast': (p: { suggestionId: string }) => void
+  'answer:submit': (p: { text: string }) => void
+  'answer:report': (p: { playerId: PlayerId }) => void // flag someone's answer for the host
+  'answer:hide': (p: { playerId: PlayerId }) => void // host: hide an answer from everyone
+  'timer:extend': (p?: NoPayload) => void // host: +30s on the answering timer (or the current turn)
+  'round:advance': (p?: NoPayload) => void // host: close answering now (party: close ordering and reveal)
+  'ordering:preview': (p: OrderingPayload) => void
+  'guesser:order': (p: OrderingPayload) => void // party rounds: every participant, ordering everyone but themselves
+  'round:reassignGuesser': (p: { playerId: PlayerId }) => void // host, once a paused round's grace has run out
+  'round:end': (p?: NoPayload) => void
+  'round:next': (p?: NoPayload) => void
+  'match:rematch': (p?: NoPayload) => void // host: start a new match with round numbers, stats and scores reset
+  'history:get': (p?: NoPayload) => void // answered with room:history to the caller
+}
+
+// Server -> Client payloads
+export type RoundStartedPayload = { roundId: string; guesserId: PlayerId; prompt: Prompt }
+export type RoundResultPayload = {
+  trueOrder: PlayerId[]
+  numbers: Record<PlayerId, number>
+  submitted?: PlayerId[]
+  isWin?: boolean
+  scores?: RoundScores // only when scoringEnabled (classic rounds)
+  party?: PartyScore[] // party rounds, best read first
+}
+// endsAt and serverNow are read off the server's clock; remainingMs (endsAt - serverNow) needs no clock sync.
+// durationMs is the timer's full length, extensions included (a progress bar's 100%)
+export type TimerStatePayload = { phase: 'answering' | 'promptVoting' | 'paused'; endsAt: number; remainingMs: number; durationMs: number; serverNow: number } // paused: the guesser's grace period
+export type HostChangedPayload = { hostId: PlayerId; previousHostId: PlayerId; reason: 'left' | 'disconnected' | 'transferred' }
+export type VoteResultPayload = { winnerId?: string; tally: Record<string, number> }
+
+export type ServerToClientEvents = {
+  'session:token': (p: { token: string }) => void // only to the owning socket
+  'session:self': (p: { playerId: PlayerId; roomCode: RoomCode }) => void
+  'clock:pong': (p: { t0: number; serverNow: number }) => void // only to the pinging socket
+  'room:state': (p: RoomState) => void
+  'round:started': (p: RoundStartedPayload) => void
+  'deal:self': (p: { number: number }) => void
+  'answer:state': (p: { answeredIds: PlayerId[] }) => void
+  'answer:timedOut': (p: { playerIds: PlayerId[] }) => void // who missed the deadline, as answering closes
+  'ordering:state': (p: { ordering: PlayerId[] }) => void
+  'guesser:needed': (p: { guesserId: PlayerId }) => void
+  'round:result': (p: RoundResultPayload) => void
+  'timer:state': (p: TimerStatePayload) => void
+  'prompt:packs': (p: { packs: PromptPackSummary[] }) => void
+  'prompt:queue': (p: { upcoming: Prompt[] }) => void // host only
+  'vote:result': (p: VoteResultPayload) => void
+  'host:changed': (p: HostChangedPayload) => void
+  'room:history': (p: { rounds: RoundRecord[] }) => void // oldest first
+  'room:closed': (p: { reason: 'idle' }) => void // the room expired; its seats and tokens are gone
+  'error': (p: ErrorPayload) => void
+}
+
+export type ClientEvent = keyof ClientToServerEvents
+export type ClientPayload<E extends ClientEvent> = Parameters<ClientToServerEvents[E]>[0]
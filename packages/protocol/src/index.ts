@@ -0,0 +1,4 @@
+export * from './domain.js'
+export * from './errors.js'
+export * from './events.js'
+export * from './rules.js'
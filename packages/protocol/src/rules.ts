@@ -0,0 +1,14 @@
+import type { PlayerId, RoomSettings } from './domain.js'
+
+// Rules the server and client must agree on.
+
+export const DEFAULT_DECK = { min: 1, max: 10 }
+
+export function deckRange(settings: RoomSettings): { min: number; max: number } {
+  return { min: settings.deckMin ?? DEFAULT_DECK.min, max: settings.deckMax ?? DEFAULT_DECK.max }
+}
+
+// A guess is right when the numbers never go down along it; players holding equal numbers may sit either way round
+export function isOrdered(ordering: PlayerId[], numbers: Record<PlayerId, number>): boolean {
+  return ordering.every((id, i) => i === 0 || numbers[ordering[i - 1]] <= numbers[id])
+}
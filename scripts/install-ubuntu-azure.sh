@@ -164,6 +164,9 @@ User=sequencing
 WorkingDirectory=${APP_DIR}/services/realtime
 Environment=NODE_ENV=production
 Environment=PORT=${REALTIME_PORT}
+# Room/session snapshots survive restarts and deploys (systemd creates /var/lib/sequencing)
+StateDirectory=sequencing
+Environment=DATA_DIR=/var/lib/sequencing
 ExecStart=/usr/bin/node ${APP_DIR}/services/realtime/dist/index.js
 Restart=always
 RestartSec=5
@@ -200,10 +203,23 @@ server {
     proxy_set_header Upgrade \$http_upgrade;
     proxy_set_header Connection "upgrade";
     proxy_set_header Host \$host;
+    # per-IP rate limits read the client address from here (the server trusts it from 127.0.0.1)
+    proxy_set_header X-Forwarded-For \$proxy_add_x_forwarded_for;
+    proxy_set_header X-Real-IP \$remote_addr;
     proxy_read_timeout 600s;
     proxy_send_timeout 600s;
   }
 
+  # Read-only HTTP API (round history export); without this the SPA fallback would answer it
+  location /api/ {
+    proxy_pass http://127.0.0.1:${REALTIME_PORT};
+    proxy_http_version 1.1;
+    proxy_set_header Host \$host;
+    proxy_set_header X-Forwarded-For \$proxy_add_x_forwarded_for;
+    proxy_set_header X-Real-IP \$remote_addr;
+    proxy_read_timeout 30s;
+  }
+
     # Static assets: cache aggressively
   location ~* \.(?:js|css|woff2?|ttf|eot|otf|svg)$ {
     try_files \$uri =404;
@@ -0,0 +1,24 @@
+import { startBroker } from './cluster/broker.js'
+import { MemoryStore } from './cluster/store.js'
+import { FileStorage } from './storage.js'
+
+// Shared store + pub/sub for running several realtime nodes (point them at it with BROKER_URL).
+// A local stand-in for Redis; DATA_DIR snapshots its rooms and sessions like a single node does.
+async function main() {
+  const store = new MemoryStore(process.env.DATA_DIR ? new FileStorage(process.env.DATA_DIR) : undefined)
+  await store.load()
+  const port = Number(process.env.BROKER_PORT || 6390)
+  const server = await startBroker(store, port, process.env.BROKER_HOST || '127.0.0.1')
+
+  const shutdown = async () => {
+    server.close()
+    await store.flush()
+    process.exit(0)
+  }
+  process.once('SIGTERM', shutdown)
+  process.once('SIGINT', shutdown)
+  // eslint-disable-next-line no-console
+  console.log(`[broker] listening on ${port}`)
+}
+
+main().catch(err => { console.error(err); process.exit(1) })
@@ -0,0 +1,133 @@
+import { createConnection, createServer, type Server, type Socket } from 'node:net'
+import type { Bus } from './bus.js'
+import { type MemoryStore, type RoomStore, STORE_METHODS } from './store.js'
+
+// A small stand-in for Redis: one process holding the shared MemoryStore and relaying pub/sub
+// between realtime nodes over newline-delimited JSON on TCP.
+//   request  { id, method, args }      -> { id, result } | { id, error }
+//   push     { channel, message }      (for channels the connection subscribed to)
+type Request = { id: number, method: string, args: unknown[] }
+type Response = { id: number, result?: unknown, error?: string }
+type Push = { channel: string, message: unknown }
+
+function lines(socket: Socket, onLine: (line: string) => void) {
+  let buffered = ''
+  socket.setEncoding('utf8')
+  socket.on('data', (chunk: string) => {
+    buffered += chunk
+    let nl: number
+    while ((nl = buffered.indexOf('\n')) !== -1) {
+      const line = buffered.slice(0, nl)
+      buffered = buffered.slice(nl + 1)
+      if (line) onLine(line)
+    }
+  })
+}
+
+function send(socket: Socket, msg: Response | Push) {
+  socket.write(JSON.stringify(msg) + '\n')
+}
+
+export function startBroker(store: MemoryStore, port: number, host = '127.0.0.1'): Promise<Server> {
+  const subscribers = new Map<string, Set<Socket>>()
+  const methods = new Set<string>(STORE_METHODS)
+
+  const server = createServer(socket => {
+    // requests from one connection are answered in order, so each node sees its own writes
+    let queue = Promise.resolve()
+    lines(socket, line => {
+      queue = queue.then(async () => {
+        let req: Request
+        try { req = JSON.parse(line) } catch { socket.destroy(); return }
+        const { id, method, args } = req
+        try {
+          if (method === 'subscribe') {
+            const channel = String(args[0])
+            if (!subscribers.has(channel)) subscribers.set(channel, new Set())
+            subscribers.get(channel)!.add(socket)
+            send(socket, { id })
+          } else if (method === 'publish') {
+            for (const sub of subscribers.get(String(args[0])) ?? []) send(sub, { channel: String(args[0]), message: args[1] })
+            send(socket, { id })
+          } else if (methods.has(method)) {
+            const result = await (store[method as keyof RoomStore] as (...a: unknown[]) => Promise<unknown>)(...args)
+            send(socket, { id, result })
+          } else {
+            send(socket, { id, error: `unknown method ${method}` })
+          }
+        } catch (err) {
+          send(socket, { id, error: String(err) })
+        }
+      })
+    })
+    socket.on('close', () => { for (const subs of subscribers.values()) subs.delete(socket) })
+    socket.on('error', () => socket.destroy())
+  })
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, () => resolve(server))
+  })
+}
+
+// A realtime node's connection to the broker; acts as both its RoomStore and its Bus
+export class BrokerClient implements Bus {
+  private socket!: Socket
+  private seq = 0
+  private readonly pending = new Map<number, { resolve: (v: unknown) => void, reject: (e: Error) => void }>()
+  private readonly handlers = new Map<string, ((message: unknown) => void)[]>()
+  readonly store: RoomStore
+
+  constructor(private readonly url: string) {
+    // each method resolves with what the same MemoryStore method returned on the broker
+    const store: Partial<Record<keyof RoomStore, (...args: unknown[]) => Promise<unknown>>> = {}
+    for (const method of STORE_METHODS) store[method] = (...args) => this.request<unknown>(method, args)
+    this.store = store as RoomStore
+  }
+
+  // Resolves once connected; onClose fires if the broker goes away later
+  connect(onClose: () => void): Promise<void> {
+    const { hostname, port } = new URL(this.url)
+    return new Promise((resolve, reject) => {
+      this.socket = createConnection({ host: hostname, port: Number(port) }, () => resolve())
+      this.socket.once('error', reject)
+      lines(this.socket, line => {
+        let msg: Response | Push
+        // a garbled line means the stream can't be trusted any more: drop it, failing what is in flight
+        try { msg = JSON.parse(line) } catch { this.socket.destroy(); return }
+        if ('channel' in msg) {
+          for (const handler of this.handlers.get(msg.channel) ?? []) handler(msg.message)
+          return
+        }
+        const call = this.pending.get(msg.id)
+        this.pending.delete(msg.id)
+        if (msg.error) call?.reject(new Error(msg.error))
+        else call?.resolve(msg.result)
+      })
+      this.socket.on('close', () => {
+        for (const call of this.pending.values()) call.reject(new Error('broker connection closed'))
+        this.pending.clear()
+        onClose()
+      })
+    })
+  }
+
+  close() { this.socket?.end() }
+
+  // Resolves with the remote method's result; T is what that method returns (void for publish/subscribe)
+  private request<T = void>(method: string, args: unknown[]): Promise<T> {
+    const id = ++this.seq
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: result => resolve(result as T), reject })
+      this.socket.write(JSON.stringify({ id, method, args }) + '\n')
+    })
+  }
+
+  async publish(channel: string, message: unknown) {
+    await this.request('publish', [channel, message])
+  }
+
+  async subscribe(channel: string, handler: (message: unknown) => void) {
+    this.handlers.set(channel, [...(this.handlers.get(channel) ?? []), handler])
+    await this.request('subscribe', [channel])
+  }
+}
@@ -0,0 +1,20 @@
+// Fire-and-forget pub/sub between realtime nodes. Messages on one channel arrive in publish order.
+export interface Bus {
+  publish(channel: string, message: unknown): Promise<void>
+  subscribe(channel: string, handler: (message: unknown) => void): Promise<void>
+}
+
+// In-process bus: one node on its own, or several routers in one process (tests).
+// Delivery is deferred to a microtask, like a network hop, so publishers never re-enter themselves.
+export class MemoryBus implements Bus {
+  private readonly handlers = new Map<string, ((message: unknown) => void)[]>()
+
+  async publish(channel: string, message: unknown) {
+    const json = JSON.stringify(message)
+    for (const handler of this.handlers.get(channel) ?? []) queueMicrotask(() => handler(JSON.parse(json)))
+  }
+
+  async subscribe(channel: string, handler: (message: unknown) => void) {
+    this.handlers.set(channel, [...(this.handlers.get(channel) ?? []), handler])
+  }
+}
@@ -0,0 +1,258 @@
+import { ErrorCode, type Phase, type PlayerId } from '@sequencing/protocol'
+import type { LogEntry } from '../eventlog.js'
+import { logger } from '../logger.js'
+import { GameRoom } from '../game/GameRoom.js'
+import { OpContext, type RoomInput, type RoomOp, applyOp, randomSeed } from '../game/ops.js'
+import { type Emission, GameError, type GameRoomOptions } from '../game/types.js'
+import type { Bus } from './bus.js'
+import type { RoomStore } from './store.js'
+
+export type { RoomOp } from '../game/ops.js'
+
+type Message =
+  | { kind: 'emit', from: string, code: string, out: Emission[] } // broadcast: deliver to local sockets
+  | { kind: 'adopted', code: string } // broadcast: a new owner restored the room; re-announce local sockets
+  | { kind: 'call', id: number, from: string, code: string, op: RoomOp } // to the owner
+  | { kind: 'reply', id: number, error?: { code: ErrorCode, message: string } } // back to the caller
+
+type Owned = {
+  game: GameRoom
+  ctx: OpContext // time and randomness for the op being applied
+  sockets: Map<PlayerId, string> // latest socket per seat, so a stale disconnect can't clobber a resume
+  timer?: NodeJS.Timeout
+  phaseSince: number // when the room entered its current phase (or this node took it over)
+}
+
+// What the owner reports about its rooms' lifecycle, for logs and metrics
+export type RoomEvent =
+  | { type: 'opened' }
+  | { type: 'adopted' }
+  | { type: 'phase', from: Phase, to: Phase, ms: number, round: number } // ms: time spent in `from`
+  | { type: 'closed' } // the last human left
+  | { type: 'expired' } // closed after idleMs without player input
+
+export type RouterOptions = {
+  packs: GameRoomOptions['packs']
+  onEmit: (code: string, out: Emission[]) => void // deliver to sockets connected to this node
+  onAdopted: (code: string) => void
+  log?: (code: string, entry: LogEntry) => void // must serialize the entry before returning
+  observe?: (code: string, event: RoomEvent) => void
+  idleMs?: number // for rooms created here; see GameRoomOptions.idleMs
+  leaseMs?: number
+  callTimeoutMs?: number
+  seed?: () => number // each input's RNG seed; random unless a test pins it
+}
+
+const BROADCAST = 'rooms'
+
+// Routes room operations to whichever node owns the room. The owner holds a lease in the store,
+// runs the GameRoom, arms its timers (so they fire once cluster-wide) and saves every change back to
+// the store; if its lease lapses, another node adopts the room from the last saved state.
+export class RoomRouter {
+  private readonly owned = new Map<string, Owned>()
+  private readonly adopting = new Map<string, Promise<Owned | undefined>>()
+  private readonly calls = new Map<number, { resolve: () => void, reject: (err: Error) => void, timer: NodeJS.Timeout }>()
+  private seq = 0
+  private renewTimer?: NodeJS.Timeout
+  private readonly leaseMs: number
+  private readonly callTimeoutMs: number
+
+  constructor(readonly nodeId: string, private readonly store: RoomStore, private readonly bus: Bus, private readonly opts: RouterOptions) {
+    this.leaseMs = opts.leaseMs ?? 10_000
+    this.callTimeoutMs = opts.callTimeoutMs ?? 5_000
+  }
+
+  async start() {
+    await this.bus.subscribe(BROADCAST, msg => this.onMessage(msg as Message))
+    await this.bus.subscribe(`node:${this.nodeId}`, msg => this.onMessage(msg as Message))
+    await this.maintain()
+    this.renewTimer = setInterval(() => { this.maintain().catch(err => logger.error('lease upkeep failed', err)) }, this.leaseMs / 3)
+  }
+
+  // Stop serving rooms. Releasing hands them straight to the next node that needs them;
+  // without it (a crash) they are adopted once the leases expire.
+  async stop({ release = true } = {}) {
+    clearInterval(this.renewTimer)
+    for (const [code, room] of this.owned) {
+      clearTimeout(room.timer)
+      if (release) await this.store.release(code, this.nodeId)
+    }
+    this.owned.clear()
+  }
+
+  ownedRooms(): string[] { return [...this.owned.keys()] }
+
+  // Open a new room owned by this node. Returns false if the code is already taken.
+  async create(code: string, playerId: PlayerId, displayName?: string, identity?: string): Promise<boolean> {
+    if (await this.store.getRoom(code) || !await this.store.claim(code, this.nodeId, this.leaseMs)) return false
+    const ctx = new OpContext()
+    const at = Date.now()
+    const seed = (this.opts.seed ?? randomSeed)()
+    ctx.begin(at, seed) // the new room draws its first prompts
+    const room: Owned = { game: new GameRoom(code, { ...this.gameOptions(ctx), idleMs: this.opts.idleMs }), ctx, sockets: new Map(), phaseSince: at }
+    this.opts.log?.(code, { type: 'open', at, seed, code, idleMs: this.opts.idleMs })
+    this.opts.observe?.(code, { type: 'opened' })
+    this.owned.set(code, room)
+    await this.run(code, room, { type: 'join', playerId, displayName, identity })
+    return true
+  }
+
+  // Apply op to the room wherever it lives; rejects with the owner's GameError
+  async apply(code: string, op: RoomOp): Promise<void> {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const local = this.owned.get(code)
+      if (local) return this.run(code, local, op)
+      const owner = await this.store.owner(code)
+      if (owner && owner !== this.nodeId) return this.call(owner, code, op)
+      const adopted = await this.adopt(code)
+      if (adopted) return this.run(code, adopted, op)
+      // lost the race to adopt it: go round again and forward to the winner
+      if (!await this.store.getRoom(code)) break
+    }
+    throw new GameError(ErrorCode.ROOM_NOT_FOUND, 'Room not found')
+  }
+
+  private call(owner: string, code: string, op: RoomOp): Promise<void> {
+    const id = ++this.seq
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.calls.delete(id)
+        reject(new GameError(ErrorCode.ROOM_UNAVAILABLE, 'Room is temporarily unavailable, try again'))
+      }, this.callTimeoutMs)
+      this.calls.set(id, { resolve, reject, timer })
+      this.bus.publish(`node:${owner}`, { kind: 'call', id, from: this.nodeId, code, op } satisfies Message).catch(reject)
+    })
+  }
+
+  private onMessage(msg: Message) {
+    switch (msg.kind) {
+      case 'emit':
+        if (msg.from !== this.nodeId) this.opts.onEmit(msg.code, msg.out)
+        break
+      case 'adopted':
+        this.opts.onAdopted(msg.code)
+        break
+      case 'call': {
+        const reply = (error?: { code: ErrorCode, message: string }) =>
+          this.bus.publish(`node:${msg.from}`, { kind: 'reply', id: msg.id, error } satisfies Message)
+        const room = this.owned.get(msg.code)
+        // we lost the lease since the caller looked us up
+        if (!room) { void reply({ code: ErrorCode.ROOM_UNAVAILABLE, message: 'Room is temporarily unavailable, try again' }); break }
+        this.run(msg.code, room, msg.op).then(() => reply(), err => {
+          if (err instanceof GameError) return reply({ code: err.code, message: err.message })
+          logger.error('remote op failed', err, { room: msg.code, op: msg.op.type })
+          return reply({ code: ErrorCode.ROOM_UNAVAILABLE, message: 'Room is temporarily unavailable, try again' })
+        })
+        break
+      }
+      case 'reply': {
+        const call = this.calls.get(msg.id)
+        if (!call) break
+        this.calls.delete(msg.id)
+        clearTimeout(call.timer)
+        if (msg.error) call.reject(new GameError(msg.error.code, msg.error.message))
+        else call.resolve()
+        break
+      }
+    }
+  }
+
+  // Run op on a room we own, then publish its emissions and save the result
+  private async run(code: string, room: Owned, op: RoomOp) {
+    if (op.type === 'connect') room.sockets.set(op.playerId, op.socketId)
+    if (op.type === 'disconnect') {
+      // A newer socket may already have resumed this seat
+      if (room.sockets.has(op.playerId) && room.sockets.get(op.playerId) !== op.socketId) return
+      room.sockets.delete(op.playerId)
+    }
+    await this.settle(code, room, this.step(code, room, op))
+  }
+
+  // Deliver and publish what an op or timer produced, then save the room, or drop it (and its timer)
+  // once it is empty or expired
+  private async settle(code: string, room: Owned, { out, dropped }: { out: Emission[], dropped: PlayerId[] }) {
+    const { game } = room
+    this.opts.onEmit(code, out)
+    const pending: Promise<unknown>[] = [this.bus.publish(BROADCAST, { kind: 'emit', from: this.nodeId, code, out } satisfies Message)]
+    // players the game dropped (leave, kick, gone too long) lose their resume tokens
+    for (const id of dropped) { room.sockets.delete(id); pending.push(this.store.revokeSessions(id)) }
+    if (game.isEmpty || game.isExpired) {
+      clearTimeout(room.timer)
+      this.owned.delete(code)
+      this.opts.observe?.(code, { type: game.isEmpty ? 'closed' : 'expired' })
+      pending.push(this.store.deleteRoom(code))
+    } else {
+      this.schedule(code, room)
+      pending.push(this.store.putRoom(game.state))
+    }
+    await Promise.all(pending)
+  }
+
+  // Apply one input at a fixed time with a fresh seed, logging it once the game accepted it
+  private step(code: string, room: Owned, input: RoomInput): { out: Emission[], dropped: PlayerId[] } {
+    const at = Date.now()
+    const seed = (this.opts.seed ?? randomSeed)()
+    room.ctx.begin(at, seed)
+    const from = room.game.state.phase
+    const before = room.game.state.players.map(p => p.id)
+    const out = applyOp(room.game, input)
+    this.opts.log?.(code, { type: 'op', at, seed, op: input, out })
+    const { phase: to, roundCounter: round } = room.game.state
+    if (to !== from) {
+      this.opts.observe?.(code, { type: 'phase', from, to, ms: at - room.phaseSince, round })
+      room.phaseSince = at
+    }
+    return { out, dropped: before.filter(id => !room.game.player(id)) }
+  }
+
+  private gameOptions(ctx: OpContext): GameRoomOptions {
+    return { packs: this.opts.packs, clock: ctx.clock, rng: ctx.rng, newId: ctx.newId }
+  }
+
+  // Re-arm the room's single timer for the game's next deadline
+  private schedule(code: string, room: Owned) {
+    clearTimeout(room.timer)
+    room.timer = undefined
+    const at = room.game.nextDeadline()
+    if (at === undefined) return
+    room.timer = setTimeout(() => {
+      if (this.owned.get(code) !== room) return
+      this.settle(code, room, this.step(code, room, { type: 'tick' })).catch(err => logger.error('timer publish failed', err, { room: code }))
+    }, Math.max(0, at - Date.now()))
+  }
+
+  // Take over a room nobody holds a lease on, restoring it from the store
+  private adopt(code: string): Promise<Owned | undefined> {
+    const inFlight = this.adopting.get(code)
+    if (inFlight) return inFlight
+    const attempt = (async () => {
+      const data = await this.store.getRoom(code)
+      if (!data || !await this.store.claim(code, this.nodeId, this.leaseMs)) return undefined
+      // replays of this room pick up from the saved state
+      const at = Date.now()
+      this.opts.log?.(code, { type: 'restore', at, state: data })
+      const ctx = new OpContext()
+      ctx.begin(at, 0) // restoring reads the clock but draws nothing
+      const room: Owned = { game: GameRoom.restore(data, { ...this.gameOptions(ctx), idleMs: this.opts.idleMs }), ctx, sockets: new Map(), phaseSince: at }
+      this.owned.set(code, room)
+      this.opts.observe?.(code, { type: 'adopted' })
+      this.schedule(code, room)
+      await this.bus.publish(BROADCAST, { kind: 'adopted', code } satisfies Message)
+      return room
+    })()
+    this.adopting.set(code, attempt)
+    return attempt.finally(() => this.adopting.delete(code))
+  }
+
+  // Renew our leases (dropping rooms another node took over) and adopt rooms whose owner went away
+  private async maintain() {
+    for (const [code, room] of this.owned) {
+      if (await this.store.claim(code, this.nodeId, this.leaseMs)) continue
+      clearTimeout(room.timer)
+      this.owned.delete(code)
+    }
+    for (const code of await this.store.roomCodes()) {
+      if (!this.owned.has(code) && !await this.store.owner(code)) await this.adopt(code)
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import type { PlayerId } from '@sequencing/protocol'
+import type { RoomData } from '../game/types.js'
+import { logger } from '../logger.js'
+import type { Session, Storage } from '../storage.js'
+
+// State shared by every realtime node: room snapshots, which node owns each room, and resume tokens.
+// Only a room's owner runs its GameRoom and timers; everyone else forwards commands to it.
+export interface RoomStore {
+  getRoom(code: string): Promise<RoomData | undefined>
+  putRoom(data: RoomData): Promise<void>
+  deleteRoom(code: string): Promise<void>
+  roomCodes(): Promise<string[]>
+  // Take or extend ownership; fails while another node holds an unexpired lease
+  claim(code: string, nodeId: string, ttlMs: number): Promise<boolean>
+  release(code: string, nodeId: string): Promise<void>
+  owner(code: string): Promise<string | undefined>
+  getSession(token: string): Promise<Session | undefined>
+  putSession(token: string, session: Session): Promise<void>
+  revokeSessions(playerId: PlayerId): Promise<void>
+  pruneSessions(issuedBefore: number): Promise<void>
+}
+
+// The methods a remote client may invoke (see broker.ts)
+export const STORE_METHODS = [
+  'getRoom', 'putRoom', 'deleteRoom', 'roomCodes', 'claim', 'release', 'owner',
+  'getSession', 'putSession', 'revokeSessions', 'pruneSessions',
+] as const satisfies readonly (keyof RoomStore)[]
+
+const SAVE_DELAY_MS = 250 // coalesce bursts of mutations into one write
+
+// In-process store. Backs a single node directly, or every node through the broker.
+// With a Storage it snapshots rooms and sessions after each change; leases are never persisted.
+export class MemoryStore implements RoomStore {
+  private rooms = new Map<string, RoomData>()
+  private leases = new Map<string, { nodeId: string, expiresAt: number }>()
+  private sessions = new Map<string, Session>()
+  private saveTimer?: NodeJS.Timeout
+
+  constructor(private readonly storage?: Storage) {}
+
+  // Load the last snapshot; a corrupt one is logged and skipped rather than crash-looping the service
+  async load() {
+    const saved = await this.storage?.load().catch(err => { logger.error('could not load snapshot', err); return undefined })
+    if (!saved) return
+    this.rooms = new Map(saved.rooms.map(r => [r.code, r]))
+    this.sessions = new Map(Object.entries(saved.sessions))
+  }
+
+  // Write any pending snapshot now (on shutdown)
+  async flush() {
+    clearTimeout(this.saveTimer)
+    this.saveTimer = undefined
+    await this.save()
+  }
+
+  private async save() {
+    if (!this.storage) return
+    await this.storage.save({ version: 1, savedAt: Date.now(), rooms: [...this.rooms.values()], sessions: Object.fromEntries(this.sessions) })
+      .catch(err => logger.error('snapshot failed', err))
+  }
+
+  private changed() {
+    if (!this.storage || this.saveTimer) return
+    this.saveTimer = setTimeout(() => { this.saveTimer = undefined; void this.save() }, SAVE_DELAY_MS)
+  }
+
+  // Copies on the way in and out, so callers can't share mutable state through the store
+  async getRoom(code: string) { const r = this.rooms.get(code); return r && structuredClone(r) }
+  async putRoom(data: RoomData) { this.rooms.set(data.code, structuredClone(data)); this.changed() }
+  async deleteRoom(code: string) { this.rooms.delete(code); this.leases.delete(code); this.changed() }
+  async roomCodes() { return [...this.rooms.keys()] }
+
+  async claim(code: string, nodeId: string, ttlMs: number) {
+    const now = Date.now()
+    const lease = this.leases.get(code)
+    if (lease && lease.nodeId !== nodeId && lease.expiresAt > now) return false
+    this.leases.set(code, { nodeId, expiresAt: now + ttlMs })
+    return true
+  }
+
+  async release(code: string, nodeId: string) {
+    if (this.leases.get(code)?.nodeId === nodeId) this.leases.delete(code)
+  }
+
+  async owner(code: string) {
+    const lease = this.leases.get(code)
+    return lease && lease.expiresAt > Date.now() ? lease.nodeId : undefined
+  }
+
+  async getSession(token: string) { return this.sessions.get(token) }
+  async putSession(token: string, session: Session) { this.sessions.set(token, session); this.changed() }
+
+  async revokeSessions(playerId: PlayerId) {
+    for (const [token, s] of this.sessions) if (s.playerId === playerId) this.sessions.delete(token)
+    this.changed()
+  }
+
+  async pruneSessions(issuedBefore: number) {
+    for (const [token, s] of this.sessions) {
+      if (s.issuedAt < issuedBefore || !this.rooms.has(s.roomCode)) this.sessions.delete(token)
+    }
+    this.changed()
+  }
+}
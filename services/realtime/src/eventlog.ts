@@ -0,0 +1,105 @@
+import { createHmac, randomBytes } from 'node:crypto'
+import { appendFile, mkdir, readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { RoomState } from '@sequencing/protocol'
+import { logger } from './logger.js'
+import { GameRoom } from './game/GameRoom.js'
+import { OpContext, type RoomInput, applyOp } from './game/ops.js'
+import type { Emission, GameRoomOptions, RoomData } from './game/types.js'
+
+// One line of a room's event log. Together with the prompt packs, `open`/`restore` plus every
+// accepted input (with the time and seed it ran with) reproduce the room exactly.
+export type LogEntry =
+  | { type: 'open', at: number, seed: number, code: string, idleMs?: number } // room created; the seed drew its first prompts
+  | { type: 'restore', at: number, state: RoomData } // adopted or reloaded from a snapshot; replay continues from here
+  | { type: 'op', at: number, seed: number, op: RoomInput, out: Emission[] }
+
+// Room passwords and browser identities never reach the log. Each is replaced by a keyed digest, so a
+// replay still sees which join attempts matched the password and which browsers are banned, but the log
+// can't give the secrets back. The key is random per redactor: every open/restore entry carries the whole
+// room, so a log stays replayable as long as one process writes each stretch between them.
+export function redactor(key: Buffer = randomBytes(32)): (entry: LogEntry) => LogEntry {
+  const digest = <T extends string | undefined>(secret: T): T => (secret ? createHmac('sha256', key).update(secret).digest('base64url') : secret) as T
+  return entry => {
+    if (entry.type === 'restore') {
+      const { state } = entry
+      return {
+        ...entry,
+        state: {
+          ...state,
+          password: digest(state.password),
+          identities: Object.fromEntries(Object.entries(state.identities ?? {}).map(([id, identity]) => [id, digest(identity)])),
+          banned: (state.banned ?? []).map(ban => ({ ...ban, identity: digest(ban.identity) })),
+        },
+      }
+    }
+    if (entry.type !== 'op') return entry
+    const { op } = entry
+    if (op.type === 'join') return { ...entry, op: { ...op, identity: digest(op.identity), password: digest(op.password) } }
+    if (op.type === 'command' && op.command.type === 'room:setPassword') {
+      return { ...entry, op: { ...op, command: { ...op.command, payload: { password: digest(op.command.payload.password) } } } }
+    }
+    return entry
+  }
+}
+
+// Appends each room's entries to `<dir>/<code>.jsonl`, one JSON object per line, in order, redacted
+export class FileEventLog {
+  private pending: Promise<void> = Promise.resolve()
+
+  constructor(private readonly dir: string, private readonly redact = redactor()) {}
+
+  append(code: string, entry: LogEntry) {
+    const line = `${JSON.stringify(this.redact(entry))}\n`
+    this.pending = this.pending.then(async () => {
+      await mkdir(this.dir, { recursive: true })
+      await appendFile(join(this.dir, `${code}.jsonl`), line, 'utf8')
+    }).catch(err => logger.error('event log write failed', err, { room: code }))
+  }
+
+  flush(): Promise<void> { return this.pending }
+}
+
+export async function readLog(file: string): Promise<LogEntry[]> {
+  const raw = await readFile(file, 'utf8')
+  return raw.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as LogEntry)
+}
+
+// What one logged input produced on replay; `diverged` when its emissions differ from the logged ones
+export type ReplayStep = { line: number, at: number, input: string, states: RoomState[], diverged: boolean }
+
+// Run a log back through the game rules, one step per logged input
+export function replay(entries: LogEntry[], packs: GameRoomOptions['packs']): ReplayStep[] {
+  const ctx = new OpContext()
+  const opts: GameRoomOptions = { packs, clock: ctx.clock, rng: ctx.rng, newId: ctx.newId }
+  const steps: ReplayStep[] = []
+  let game: GameRoom | undefined
+  entries.forEach((entry, i) => {
+    if (entry.type === 'open') {
+      ctx.begin(entry.at, entry.seed)
+      game = new GameRoom(entry.code, { ...opts, idleMs: entry.idleMs })
+      return
+    }
+    if (entry.type === 'restore') {
+      ctx.begin(entry.at, 0)
+      game = GameRoom.restore(structuredClone(entry.state), opts)
+      return
+    }
+    if (!game) throw new Error(`line ${i + 1}: ${entry.op.type} before the room was opened`)
+    ctx.begin(entry.at, entry.seed)
+    let out: Emission[] = []
+    try {
+      out = applyOp(game, entry.op)
+    } catch {
+      // rejected on replay although the live room accepted it: counts as a divergence
+    }
+    steps.push({
+      line: i + 1,
+      at: entry.at,
+      input: entry.op.type === 'command' ? entry.op.command.type : entry.op.type,
+      states: out.flatMap(e => e.event === 'room:state' ? [e.payload] : []),
+      diverged: JSON.stringify(out) !== JSON.stringify(entry.out),
+    })
+  })
+  return steps
+}
@@ -0,0 +1,1073 @@
+import { nanoid } from 'nanoid'
+import { ErrorCode, type ClientPayload, type HostChangedPayload, type Player, type PlayerId, type Prompt, type RoomState, type Round, type RoundRecord, type TimerStatePayload, deckRange, isOrdered } from '@sequencing/protocol'
+import { DEFAULT_PACK_IDS, type PromptPack, customPrompt, nextPrompt, refillQueue, skipPrompts } from '../prompts.js'
+import { BOT_NAMES, botAnswer, botDelay, botOrdering } from './bots.js'
+import {
+  bestAndWorstReads, bySeat, chooseGuesser, cleanSuggestion, colorForId, dealNumbers, ensureUniqueName, filterProfanity,
+  maskWords, matchComplete, nextHost, roundReads, scorePartyRound, scoreRound, seatIndexForNewPlayer, seatedPlayers, shuffle, tallyVotes, trueOrderOf, turnOrderFrom,
+} from './rules.js'
+import { type Clock, type Command, type Emission, GameError, type GameRoomOptions, type RoomData, type Rng, systemClock } from './types.js'
+
+// Max spectators per room (on top of settings.maxPlayers seated players)
+export const MAX_SPECTATORS = 20
+
+// Player prompt suggestions and the pre-round vote
+export const MAX_SUGGESTIONS = 20
+export const MAX_SUGGESTIONS_PER_PLAYER = 2
+export const VOTE_DURATION_SEC = 20
+
+// How long a paused round waits for its guesser before the host may step in
+export const GUESSER_GRACE_SEC = 60
+
+// What the host's "+30s" adds to the answering timer
+export const TIMER_EXTEND_SEC = 30
+
+// Default for settings.hostGraceSec
+export const HOST_GRACE_SEC = 30
+// Revealed rounds kept per room; the oldest drop off first
+export const HISTORY_LIMIT = 200
+// Bans kept per room; the oldest is lifted first
+export const MAX_BANS = 100
+// How long before an idle room closes everyone gets warned
+export const IDLE_WARNING_SEC = 60
+// Players disconnected this long lose their place at the next break between rounds
+export const DISCONNECTED_DROP_SEC = 10 * 60
+
+const FALLBACK_PROMPT: Prompt = { id: 'fallback/zombies', packId: 'fallback', text: 'How likely am I to survive a zombie apocalypse?', low: 'Not at all', high: 'Very likely' }
+
+// Answers everyone may read: sequential ones as they are given, the rest once guessing starts
+function answersPublic(room: RoomData): boolean {
+  return room.phase === 'guessing' || room.phase === 'reveal' || room.pause?.resumePhase === 'guessing' || !!room.currentRound?.turnOrder
+}
+
+// A round's answers without the ones the host hid
+function visibleAnswers(round: Round): Record<PlayerId, string> {
+  return Object.fromEntries(Object.entries(round.answers).filter(([id]) => !round.hiddenAnswers?.includes(id)))
+}
+
+export function publicRoomState(room: RoomData): RoomState {
+  return {
+    code: room.code,
+    hostId: room.hostId,
+    players: room.players,
+    settings: room.settings,
+    phase: room.phase,
+    pause: room.pause,
+    match: room.match,
+    stats: room.stats,
+    promptVote: room.promptVote,
+    bans: room.banned.map(({ id, name }) => ({ id, name })),
+    passwordProtected: !!room.password || undefined,
+    closingAt: room.closingAt,
+    currentRound: room.currentRound ? {
+      ...room.currentRound,
+      numbers: {} as any,
+      answers: answersPublic(room) ? visibleAnswers(room.currentRound) : ({} as any),
+      // party orderings stay secret until everyone's are in
+      orderings: room.phase === 'reveal' ? room.currentRound.orderings : undefined,
+    } : undefined,
+  }
+}
+
+// One room's game rules, free of sockets and timers. Every method mutates the room and returns
+// the events to deliver; rejected commands throw GameError. Time only advances through tick().
+export class GameRoom {
+  private readonly packs: Map<string, PromptPack>
+  private readonly clock: Clock
+  private readonly rng: Rng
+  private readonly newId: () => string
+  private readonly data: RoomData
+  private out: Emission[] = []
+
+  constructor(code: string, opts: GameRoomOptions, restored?: RoomData) {
+    this.packs = opts.packs
+    this.clock = opts.clock ?? systemClock
+    this.rng = opts.rng ?? Math.random
+    this.newId = opts.newId ?? (() => nanoid(12))
+    if (restored) {
+      this.data = restored
+      return
+    }
+    this.data = {
+      code,
+      hostId: '',
+      players: [],
+      settings: { maxPlayers: 10, scoringEnabled: false, roundTimerSec: 90, hostGraceSec: HOST_GRACE_SEC, profanityFilterEnabled: false, promptPackIds: this.knownPackIds(DEFAULT_PACK_IDS) },
+      phase: 'lobby',
+      stats: { wins: 0, losses: 0 },
+      roundCounter: 0,
+      roundsDealt: 0,
+      usedPromptIds: [],
+      promptQueue: [],
+      promptVote: { suggestions: [], votedIds: [] },
+      ballots: {},
+      connectedSince: {},
+      disconnectedAt: {},
+      history: [],
+      identities: {},
+      banned: [],
+      idleMs: opts.idleMs,
+      timers: {},
+    }
+    refillQueue(this.data, this.packs, this.data.settings.promptPackIds, this.rng)
+  }
+
+  // Rebuild a room from a snapshot of `state`. Sockets did not survive, so every human starts disconnected
+  // until they resume; pending deadlines are kept and fire on the first tick() once they have passed.
+  // The clock should read the time of the restore: players still connected in the snapshot count as
+  // disconnected from then on, and a round whose guesser is one of them pauses as if they had dropped.
+  static restore(data: RoomData, opts: GameRoomOptions): GameRoom {
+    const now = (opts.clock ?? systemClock).now()
+    data.disconnectedAt ??= {} // snapshots from before idle expiry
+    data.idleMs ??= opts.idleMs
+    if (data.idleMs && data.timers.expiresAt === undefined) data.timers.expiresAt = now + data.idleMs
+    for (const p of data.players) {
+      if (p.bot) continue // bots have no socket to lose
+      if (p.connected) data.disconnectedAt[p.id] = now
+      p.connected = false
+    }
+    data.connectedSince = {}
+    data.history ??= [] // snapshots from before round history
+    data.identities ??= {} // ...and from before bans
+    data.banned ??= []
+    data.roundsDealt ??= Math.max(data.roundCounter, ...data.history.map(r => r.index + 1))
+    const game = new GameRoom(data.code, opts, data)
+    const guesserId = data.currentRound?.guesserId
+    if ((data.phase === 'answering' || data.phase === 'guessing') && guesserId && !game.player(guesserId)?.bot) {
+      game.pauseRound()
+      game.flush() // nobody is attached yet; connect() replays the pause timer
+    }
+    return game
+  }
+
+  get code(): string { return this.data.code }
+  get state(): Readonly<RoomData> { return this.data }
+  // bots alone don't keep a room open
+  get isEmpty(): boolean { return !this.data.players.some(p => !p.bot) }
+  // nobody did anything for idleMs; the transport drops the room after delivering room:closed
+  get isExpired(): boolean {
+    const at = this.data.timers.expiresAt
+    return at !== undefined && this.clock.now() >= at
+  }
+
+  publicState(): RoomState { return publicRoomState(this.data) }
+
+  player(id: PlayerId): Player | undefined {
+    return this.data.players.find(p => p.id === id)
+  }
+
+  // Earliest pending deadline; the transport calls tick() once it has passed
+  nextDeadline(): number | undefined {
+    const room = this.data
+    const deadlines = [room.timers.hostFailoverAt, ...Object.values(room.timers.botActions ?? {})]
+    if (room.phase === 'answering') deadlines.push(room.timers.answeringEndsAt)
+    if (room.phase === 'promptVoting') deadlines.push(room.promptVote.endsAt)
+    if (room.phase === 'paused' && !room.pause?.expired) deadlines.push(room.pause?.graceEndsAt)
+    if (room.timers.expiresAt !== undefined) deadlines.push(room.closingAt === undefined ? room.timers.expiresAt - IDLE_WARNING_SEC * 1000 : room.timers.expiresAt)
+    if (this.betweenRounds) deadlines.push(...Object.values(room.disconnectedAt).map(at => at + DISCONNECTED_DROP_SEC * 1000))
+    const pending = deadlines.filter((at): at is number => at !== undefined)
+    return pending.length > 0 ? Math.min(...pending) : undefined
+  }
+
+  // Add a new player. The first one becomes host; mid-round joiners and overflow beyond maxPlayers
+  // watch as spectators. The transport may pick the id so it can route to the player before we reply.
+  // `identity` is the joining browser's clientId (bans are keyed on it); `password` answers the room's.
+  join(displayName: string | undefined, opts: { spectate?: boolean, playerId?: PlayerId, identity?: string, password?: string } = {}): { playerId: PlayerId, out: Emission[] } {
+    const room = this.data
+    if (room.players.length > 0) this.admit(opts.identity, opts.password)
+    const midRound = room.phase === 'answering' || room.phase === 'guessing' || room.phase === 'paused'
+    const full = seatedPlayers(room.players).length >= room.settings.maxPlayers
+    const asSpectator = !!opts.spectate || midRound || full
+    if (asSpectator && room.players.length - seatedPlayers(room.players).length >= MAX_SPECTATORS) {
+      throw new GameError(ErrorCode.ROOM_FULL, 'Room is full')
+    }
+    this.out = []
+    const id = opts.playerId ?? this.newId()
+    const first = room.players.length === 0
+    const name = ensureUniqueName(room.players, this.censor(displayName ?? '') || (first ? 'Host' : 'Player'))
+    const player: Player = { id, name, role: 'spectator', seat: -1, connected: true, color: colorForId(id), score: 0 }
+    if (!asSpectator) this.seat(player)
+    else if (midRound && !opts.spectate && !full) player.queued = true
+    room.players.push(player)
+    if (opts.identity) room.identities[id] = opts.identity
+    room.connectedSince[id] = this.clock.now()
+    if (first) {
+      room.hostId = id
+      this.emitPromptQueue()
+    }
+    this.touch()
+    this.emitState()
+    return { playerId: id, out: this.flush() }
+  }
+
+  // A player's socket (re)attached: replay what only that player may see
+  connect(playerId: PlayerId): Emission[] {
+    return this.run(() => {
+      const room = this.data
+      const p = this.player(playerId)
+      if (!p) return
+      if (!p.connected) room.connectedSince[p.id] = this.clock.now()
+      p.connected = true
+      delete room.disconnectedAt[p.id]
+      this.touch()
+      if (room.hostId === p.id) room.timers.hostFailoverAt = undefined
+      // the host is still away (e.g. after a restart): start their grace period now that someone could take over
+      else if (!this.player(room.hostId)?.connected && !room.timers.hostFailoverAt) this.armHostFailover()
+      if (room.phase === 'paused' && room.pause?.guesserId === p.id) this.resumeRound()
+      this.emitState()
+      const number = room.currentRound?.numbers[p.id]
+      if (number != null) this.emit({ player: p.id }, 'deal:self', { number })
+      if (room.hostId === p.id) this.emitPromptQueue()
+      if (room.phase === 'answering' && room.timers.answeringEndsAt) {
+        this.emitTimer({ player: p.id }, 'answering', room.timers.answeringEndsAt)
+      }
+      if (room.phase === 'promptVoting' && room.promptVote.endsAt) {
+        this.emitTimer({ player: p.id }, 'promptVoting', room.promptVote.endsAt)
+      }
+      if (room.phase === 'paused' && room.pause && !room.pause.expired) {
+        this.emitTimer({ player: p.id }, 'paused', room.pause.graceEndsAt)
+      }
+    })
+  }
+
+  disconnect(playerId: PlayerId): Emission[] {
+    return this.run(() => {
+      const room = this.data
+      const p = this.player(playerId)
+      if (!p) return
+      p.connected = false
+      delete room.connectedSince[p.id]
+      room.disconnectedAt[p.id] = this.clock.now()
+      this.touch()
+      if (room.hostId === p.id) this.armHostFailover()
+      if ((room.phase === 'answering' || room.phase === 'guessing') && room.currentRound?.guesserId === p.id) this.pauseRound()
+      // an answerer who drops on their turn is skipped
+      if (room.phase === 'answering' && room.currentRound?.currentAnswererId === p.id) return this.nextTurn()
+      // ...and a party round stops waiting for an ordering that may never come
+      if (room.phase === 'guessing' && room.currentRound?.mode === 'party' && this.partyComplete()) return this.revealParty()
+      this.emitState()
+    })
+  }
+
+  leave(playerId: PlayerId): Emission[] {
+    return this.run(() => {
+      this.touch()
+      this.depart(playerId)
+    })
+  }
+
+  // Fire any timers whose deadline has passed
+  tick(): Emission[] {
+    return this.run(() => {
+      const room = this.data
+      const now = this.clock.now()
+      if (this.isExpired) return this.emit('room', 'room:closed', { reason: 'idle' })
+      if (room.timers.expiresAt !== undefined && room.closingAt === undefined && now >= room.timers.expiresAt - IDLE_WARNING_SEC * 1000) {
+        room.closingAt = room.timers.expiresAt
+        this.emitState()
+      }
+      if (this.betweenRounds) {
+        for (const [id, at] of Object.entries(room.disconnectedAt)) {
+          if (now >= at + DISCONNECTED_DROP_SEC * 1000) this.depart(id)
+        }
+      }
+      // bots go first: they are scheduled to beat the answering timer
+      for (const [id, at] of Object.entries(room.timers.botActions ?? {})) {
+        if (now < at) continue
+        delete room.timers.botActions![id]
+        this.botAct(id)
+      }
+      if (room.phase === 'answering' && room.timers.answeringEndsAt && now >= room.timers.answeringEndsAt) {
+        // a sequential turn ran out: skip that answerer
+        if (room.currentRound?.turnOrder) this.nextTurn()
+        else this.enterGuessing()
+      }
+      if (room.phase === 'promptVoting' && room.promptVote.endsAt && now >= room.promptVote.endsAt) {
+        this.finishVote()
+      }
+      if (room.timers.hostFailoverAt && now >= room.timers.hostFailoverAt) {
+        room.timers.hostFailoverAt = undefined
+        // with nobody connected the role stays put; the next player to connect re-arms the grace period
+        const next = nextHost(room.players, room.connectedSince, room.hostId)
+        if (next && !this.player(room.hostId)?.connected) {
+          this.changeHost(next.id, 'disconnected')
+          this.emitState()
+        }
+      }
+      if (room.phase === 'paused' && room.pause && !room.pause.expired && now >= room.pause.graceEndsAt) {
+        room.pause.expired = true
+        this.emitState()
+      }
+    })
+  }
+
+  handle(actorId: PlayerId, cmd: Command): Emission[] {
+    return this.run(() => {
+      switch (cmd.type) {
+        case 'settings:update': this.updateSettings(actorId, cmd.payload); break
+        case 'room:kick': this.kick(actorId, cmd.payload.playerId); break
+        case 'room:ban': this.ban(actorId, cmd.payload.playerId); break
+        case 'room:unban': this.unban(actorId, cmd.payload.banId); break
+        case 'room:setPassword': this.setPassword(actorId, cmd.payload.password); break
+        case 'room:seatPlayer': this.seatSpectator(actorId, cmd.payload.playerId); break
+        case 'room:shuffleSeats': this.shuffleSeats(actorId); break
+        case 'room:transferHost': this.transferHost(actorId, cmd.payload.playerId); break
+        case 'room:addBot': this.addBot(actorId); break
+        case 'room:keepAlive': break // touch() below is all it takes
+        case 'round:start': this.startRound(actorId, cmd.payload); break
+        case 'prompt:skip': this.skip(actorId, cmd.payload.promptId); break
+        case 'prompt:reroll': this.skip(actorId); break
+        case 'prompt:suggest': this.suggest(actorId, cmd.payload); break
+        case 'prompt:withdraw': this.withdraw(actorId, cmd.payload.suggestionId); break
+        case 'vote:start': this.startVote(actorId); break
+        case 'vote:cast': this.castVote(actorId, cmd.payload.suggestionId); break
+        case 'answer:submit': this.submitAnswer(actorId, cmd.payload.text); break
+        case 'answer:report': this.reportAnswer(actorId, cmd.payload.playerId); break
+        case 'answer:hide': this.hideAnswer(actorId, cmd.payload.playerId); break
+        case 'timer:extend': this.extendTimer(actorId); break
+        case 'round:advance': this.advance(actorId); break
+        case 'ordering:preview': this.previewOrdering(actorId, cmd.payload.ordering); break
+        case 'guesser:order': this.submitOrdering(actorId, cmd.payload.ordering); break
+        case 'round:reassignGuesser': this.reassignGuesser(actorId, cmd.payload.playerId); break
+        case 'round:end': this.endRound(actorId); break
+        case 'round:next': this.nextRound(actorId); break
+        case 'match:rematch': this.rematch(actorId); break
+        case 'history:get': this.emit({ player: actorId }, 'room:history', { rounds: this.data.history }); break
+      }
+      // only accepted commands count, so rejected ones (which aren't logged) change nothing
+      this.touch()
+    })
+  }
+
+  private emit<E extends Emission['event']>(to: Emission['to'], event: E, payload: Extract<Emission, { event: E }>['payload']) {
+    this.out.push({ to, event, payload } as Emission)
+  }
+
+  // Deadlines go out with the time left and the server's clock, so clients can count down whatever their own clock says
+  private emitTimer(to: Emission['to'], phase: TimerStatePayload['phase'], endsAt: number) {
+    const now = this.clock.now()
+    const remainingMs = Math.max(0, endsAt - now)
+    const durationMs = phase === 'answering' ? this.data.timers.answeringMs : phase === 'paused' ? GUESSER_GRACE_SEC * 1000 : VOTE_DURATION_SEC * 1000
+    // snapshots from before answeringMs only know what is left
+    this.emit(to, 'timer:state', { phase, endsAt, remainingMs, durationMs: Math.max(durationMs ?? 0, remainingMs), serverNow: now })
+  }
+
+  private emitState() {
+    this.emit('room', 'room:state', this.publicState())
+  }
+
+  // Upcoming prompts are host-only so they don't spoil the next rounds for everyone else
+  private emitPromptQueue() {
+    this.emit({ player: this.data.hostId }, 'prompt:queue', { upcoming: this.data.promptQueue })
+  }
+
+  private run(fn: () => void): Emission[] {
+    this.out = []
+    fn()
+    this.syncBots()
+    return this.flush()
+  }
+
+  private flush(): Emission[] {
+    const out = this.out
+    this.out = []
+    return out
+  }
+
+  private get betweenRounds(): boolean { return this.data.phase === 'lobby' || this.data.phase === 'reveal' }
+
+  // Player input keeps the room open: push the idle deadline back and withdraw any closing warning
+  private touch() {
+    const room = this.data
+    if (!room.idleMs) return
+    room.timers.expiresAt = this.clock.now() + room.idleMs
+    if (room.closingAt === undefined) return
+    room.closingAt = undefined
+    this.emitState()
+  }
+
+  private requireHost(actorId: PlayerId, message: string) {
+    if (actorId !== this.data.hostId) throw new GameError(ErrorCode.NOT_HOST, message)
+  }
+
+  // Masks the built-in swear words (with the profanity filter on) and the host's blocked words (always)
+  private censor(text: string): string {
+    const { profanityFilterEnabled, blockedWords = [] } = this.data.settings
+    const masked = maskWords(text, blockedWords)
+    return profanityFilterEnabled ? filterProfanity(masked) : masked
+  }
+
+  private knownPackIds(ids: string[]): string[] {
+    return ids.filter(id => this.packs.has(id))
+  }
+
+  private seat(p: Player) {
+    p.seat = seatIndexForNewPlayer(seatedPlayers(this.data.players))
+    p.role = 'player'
+    p.queued = undefined
+  }
+
+  private removePlayer(id: PlayerId): Player | undefined {
+    const idx = this.data.players.findIndex(p => p.id === id)
+    if (idx === -1) return undefined
+    delete this.data.connectedSince[id]
+    delete this.data.disconnectedAt[id]
+    delete this.data.identities[id]
+    return this.data.players.splice(idx, 1)[0]
+  }
+
+  // A player leaves for good (or was gone too long): pass on the host role and whatever the round
+  // was waiting on them for
+  private depart(playerId: PlayerId) {
+    const room = this.data
+    this.removePlayer(playerId)
+    // reassign host if needed
+    if (this.isEmpty) return
+    if (room.hostId === playerId) {
+      const humans = room.players.filter(p => !p.bot)
+      this.changeHost((nextHost(room.players, room.connectedSince) ?? seatedPlayers(humans)[0] ?? humans[0]).id, 'left')
+    }
+    // a guesser who left is not coming back: hand the round straight to the host
+    if ((room.phase === 'answering' || room.phase === 'guessing') && room.currentRound?.guesserId === playerId) this.pauseRound()
+    if (room.phase === 'paused' && room.pause?.guesserId === playerId) room.pause.expired = true
+    if (room.phase === 'answering' && room.currentRound?.currentAnswererId === playerId) return this.nextTurn()
+    if (room.phase === 'guessing' && room.currentRound?.mode === 'party' && this.partyComplete()) return this.revealParty()
+    this.emitState()
+  }
+
+  private armHostFailover() {
+    this.data.timers.hostFailoverAt = this.clock.now() + (this.data.settings.hostGraceSec ?? HOST_GRACE_SEC) * 1000
+  }
+
+  // Hand the host role over; the caller emits room:state
+  private changeHost(hostId: PlayerId, reason: HostChangedPayload['reason']) {
+    const room = this.data
+    const previousHostId = room.hostId
+    room.hostId = hostId
+    room.timers.hostFailoverAt = undefined
+    this.emit('room', 'host:changed', { hostId, previousHostId, reason })
+    this.emitPromptQueue()
+  }
+
+  private transferHost(actorId: PlayerId, targetId: PlayerId) {
+    this.requireHost(actorId, 'Only host can hand over the host role')
+    if (targetId === actorId) return
+    const target = this.player(targetId)
+    if (!target?.connected) throw new GameError(ErrorCode.NOT_PLAYER, 'The new host must be connected')
+    if (target.bot) throw new GameError(ErrorCode.NOT_PLAYER, 'Bots cannot host')
+    this.changeHost(targetId, 'transferred')
+    this.emitState()
+  }
+
+  private updateSettings(actorId: PlayerId, patch: ClientPayload<'settings:update'>) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can update settings')
+    // switching the match mode starts a new match
+    if (patch.matchMode !== undefined && patch.matchMode !== (room.settings.matchMode ?? 'open')) room.match = undefined
+    room.settings = { ...room.settings, ...patch }
+    // an empty range moves whichever bound the patch did not set
+    const { min, max } = deckRange(room.settings)
+    if (max <= min) {
+      if (patch.deckMax !== undefined && patch.deckMin === undefined) room.settings.deckMin = max - 1
+      else room.settings.deckMax = min + 1
+    }
+    if (patch.promptPackIds) {
+      const ids = this.knownPackIds(patch.promptPackIds)
+      room.settings.promptPackIds = ids.length > 0 ? ids : this.knownPackIds(DEFAULT_PACK_IDS)
+      refillQueue(room, this.packs, room.settings.promptPackIds, this.rng)
+      this.emitPromptQueue()
+    }
+    this.emitState()
+  }
+
+  private kick(actorId: PlayerId, targetId: PlayerId) {
+    this.requireHost(actorId, 'Only host can kick')
+    if (this.expel(targetId)) this.emitState()
+  }
+
+  // Remove a player on the host's say-so; the caller emits room:state
+  private expel(targetId: PlayerId): Player | undefined {
+    const room = this.data
+    if (targetId === room.hostId) throw new GameError(ErrorCode.CANNOT_KICK_HOST, 'Cannot kick host')
+    const removed = this.removePlayer(targetId)
+    if (!removed) return undefined
+    // End round if participants changed mid-round (MVP: return to lobby)
+    if (room.currentRound?.participants.includes(removed.id)) {
+      room.currentRound = undefined
+      room.phase = 'lobby'
+      room.pause = undefined
+      room.timers.answeringEndsAt = undefined
+    }
+    return removed
+  }
+
+  // A kick that sticks: the banned browser can't join again, under any name
+  private ban(actorId: PlayerId, targetId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can ban')
+    if (this.player(targetId)?.bot) throw new GameError(ErrorCode.NOT_PLAYER, 'Bots can be removed, not banned')
+    const identity = room.identities[targetId]
+    const removed = this.expel(targetId)
+    if (!removed) return
+    if (identity) room.banned.push({ id: this.newId(), name: removed.name, identity })
+    if (room.banned.length > MAX_BANS) room.banned.splice(0, room.banned.length - MAX_BANS)
+    this.emitState()
+  }
+
+  private unban(actorId: PlayerId, banId: string) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can lift bans')
+    room.banned = room.banned.filter(b => b.id !== banId)
+    this.emitState()
+  }
+
+  private setPassword(actorId: PlayerId, password: string) {
+    this.requireHost(actorId, 'Only host can set the room password')
+    this.data.password = password || undefined
+    this.emitState()
+  }
+
+  // Bans, the lock and the password only stop newcomers; seated players resume with their token
+  private admit(identity?: string, password?: string) {
+    const room = this.data
+    if (identity && room.banned.some(b => b.identity === identity)) throw new GameError(ErrorCode.BANNED, 'You have been banned from this room')
+    if (room.settings.locked) throw new GameError(ErrorCode.ROOM_LOCKED, 'The host has locked this room')
+    if (room.password && password !== room.password) {
+      if (!password) throw new GameError(ErrorCode.PASSWORD_REQUIRED, 'This room needs a password')
+      throw new GameError(ErrorCode.WRONG_PASSWORD, 'Wrong room password')
+    }
+  }
+
+  private seatSpectator(actorId: PlayerId, targetId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can seat players')
+    if (room.phase !== 'lobby' && room.phase !== 'reveal') throw new GameError(ErrorCode.ROUND_IN_PROGRESS, 'Players can be seated between rounds')
+    const p = this.player(targetId)
+    if (!p || p.role !== 'spectator') return
+    if (seatedPlayers(room.players).length >= room.settings.maxPlayers) throw new GameError(ErrorCode.ROOM_FULL, 'All seats are taken')
+    this.seat(p)
+    this.emitState()
+  }
+
+  private shuffleSeats(actorId: PlayerId) {
+    this.requireHost(actorId, 'Only host can shuffle seats')
+    shuffle(seatedPlayers(this.data.players), this.rng).forEach((p, i) => { p.seat = i })
+    this.emitState()
+  }
+
+  private addBot(actorId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can add bots')
+    if (room.phase !== 'lobby' && room.phase !== 'reveal') throw new GameError(ErrorCode.ROUND_IN_PROGRESS, 'Bots can join between rounds')
+    if (seatedPlayers(room.players).length >= room.settings.maxPlayers) throw new GameError(ErrorCode.ROOM_FULL, 'All seats are taken')
+    const id = this.newId()
+    const taken = new Set(room.players.map(p => p.name))
+    const name = ensureUniqueName(room.players, BOT_NAMES.find(n => !taken.has(n)) ?? 'Bot')
+    const bot: Player = { id, name, role: 'spectator', seat: -1, connected: true, bot: true, color: colorForId(id), score: 0 }
+    this.seat(bot)
+    room.players.push(bot)
+    this.emitState()
+  }
+
+  // Keep a pending action for exactly the bots that have something to do right now.
+  // Runs after every input, so each phase change (re)schedules or cancels them.
+  private syncBots() {
+    const room = this.data
+    const due = new Set(this.botsToAct())
+    const pending = room.timers.botActions ?? {}
+    for (const id of Object.keys(pending)) if (!due.has(id)) delete pending[id]
+    const endsAt = room.phase === 'answering' ? room.timers.answeringEndsAt : undefined
+    for (const id of due) pending[id] ??= botDelay(this.clock.now(), this.rng, endsAt)
+    room.timers.botActions = Object.keys(pending).length > 0 ? pending : undefined
+  }
+
+  private botsToAct(): PlayerId[] {
+    const room = this.data
+    const round = room.currentRound
+    let ids: PlayerId[] = []
+    if (round && room.phase === 'answering') {
+      ids = round.turnOrder
+        ? (round.currentAnswererId ? [round.currentAnswererId] : [])
+        : round.participants.filter(id => id !== round.guesserId && !round.answers[id])
+    }
+    if (round && room.phase === 'guessing') {
+      ids = round.mode === 'party' ? round.participants.filter(id => !round.orderings?.[id]) : [round.guesserId]
+    }
+    return ids.filter(id => this.player(id)?.bot)
+  }
+
+  private botAct(id: PlayerId) {
+    const room = this.data
+    const round = room.currentRound
+    if (!round || !this.botsToAct().includes(id)) return
+    const deck = deckRange(room.settings)
+    const templates = this.packs.get(round.prompt.packId)?.botAnswers?.[round.prompt.id]
+    if (room.phase === 'answering') this.submitAnswer(id, botAnswer(round.prompt, round.numbers[id], deck, templates))
+    else this.submitOrdering(id, botOrdering(round, id, deck, templates))
+  }
+
+  private pickPrompt(custom: ClientPayload<'round:start'>): Prompt {
+    const room = this.data
+    if (custom.prompt?.trim()) return customPrompt(String(room.roundCounter + 1), custom.prompt, custom.low, custom.high)
+    return nextPrompt(room, this.packs, room.settings.promptPackIds, this.rng) ?? FALLBACK_PROMPT
+  }
+
+  private startRound(actorId: PlayerId, payload: ClientPayload<'round:start'>) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can start round')
+    if (room.phase === 'promptVoting') throw new GameError(ErrorCode.VOTE_IN_PROGRESS, 'Wait for the prompt vote to finish')
+    // a paused round still holds its pause and hidden answers; the host ends it first
+    if (!this.betweenRounds) throw new GameError(ErrorCode.ROUND_IN_PROGRESS, 'Finish the round first')
+    if (room.match?.finished) throw new GameError(ErrorCode.MATCH_OVER, 'The match is over; start a rematch')
+    // spectators who were parked during the previous round take the free seats, but only once the round can start
+    const seated = seatedPlayers(room.players)
+    const joining = room.players.filter(p => p.queued).slice(0, Math.max(0, room.settings.maxPlayers - seated.length))
+    const playing = [...seated, ...joining].filter(p => p.connected).length
+    if (playing < 3) throw new GameError(ErrorCode.NOT_ENOUGH_PLAYERS, 'At least 3 players required')
+    const deck = { ...deckRange(room.settings), allowTies: room.settings.allowTies }
+    if (!deck.allowTies && playing > deck.max - deck.min + 1) {
+      throw new GameError(ErrorCode.TOO_MANY_PLAYERS, `Numbers ${deck.min}–${deck.max} are too few for ${playing} players; widen the range or allow ties`)
+    }
+    for (const p of joining) this.seat(p)
+    const activePlayers = seatedPlayers(room.players).filter(p => p.connected)
+
+    const party = room.settings.gameMode === 'party'
+    const guesserId = party ? '' : chooseGuesser(room.players, this.rng)
+    const roundId = `${room.code}-${room.roundsDealt + 1}`
+    // explicit host prompt > winning player suggestion > pack prompt
+    const winner = room.promptVote.suggestions.find(sg => sg.id === room.promptVote.winnerId)
+    const prompt = (!payload.prompt?.trim() && winner)
+      ? { id: winner.id, packId: winner.packId, text: winner.text, low: winner.low, high: winner.high }
+      : this.pickPrompt(payload)
+    if (winner && prompt.id === winner.id) {
+      room.promptVote.suggestions = room.promptVote.suggestions.filter(sg => sg.id !== winner.id)
+    }
+    room.promptVote.winnerId = undefined
+    const numbers = dealNumbers(activePlayers, this.rng, deck)
+    const answers: Record<PlayerId, string> = {}
+    activePlayers.forEach(p => answers[p.id] = '')
+    room.currentRound = {
+      id: roundId,
+      index: room.roundCounter,
+      guesserId,
+      prompt,
+      numbers,
+      answers,
+      participants: activePlayers.map(p => p.id),
+    }
+    if (party) room.currentRound.mode = 'party'
+    room.phase = 'answering'
+    room.roundCounter += 1
+    room.roundsDealt += 1
+    if ((room.settings.matchMode ?? 'open') !== 'open') room.match ??= { rounds: [], guesses: {}, finished: false }
+    const sequential = room.settings.answerMode === 'sequential'
+    if (sequential) room.currentRound.turnOrder = turnOrderFrom(room.players, room.currentRound.participants, guesserId)
+    else {
+      const sec = room.settings.roundTimerSec ?? 90
+      room.timers.answeringEndsAt = sec ? this.clock.now() + sec * 1000 : undefined
+      room.timers.answeringMs = sec * 1000
+    }
+
+    // notify players of their number privately
+    for (const p of activePlayers) this.emit({ player: p.id }, 'deal:self', { number: numbers[p.id] })
+    this.emit('room', 'round:started', { roundId, guesserId, prompt })
+    this.emitPromptQueue()
+    if (sequential) return this.nextTurn()
+    if (room.timers.answeringEndsAt) this.emitTimer('room', 'answering', room.timers.answeringEndsAt)
+    this.emitState()
+  }
+
+  private submitAnswer(actorId: PlayerId, text: string) {
+    const room = this.data
+    const round = room.currentRound
+    if (room.phase !== 'answering' || !round) return
+    if (!round.participants.includes(actorId)) return
+    // Guesser does not submit an answer
+    if (actorId === round.guesserId) throw new GameError(ErrorCode.GUESSER_NO_ANSWER, 'Guesser does not submit an answer')
+    if (round.turnOrder && actorId !== round.currentAnswererId) throw new GameError(ErrorCode.NOT_YOUR_TURN, 'Wait for your turn to answer')
+    round.answers[actorId] = this.censor(text.trim().slice(0, 200))
+    const answeredIds = Object.entries(round.answers)
+      .filter(([pid, v]) => pid !== round.guesserId && v && v.length > 0)
+      .map(([k]) => k)
+    this.emit('room', 'answer:state', { answeredIds })
+    if (round.turnOrder) return this.nextTurn()
+    // move to guessing when all answered
+    if (answeredIds.length === round.participants.filter(id => id !== round.guesserId).length) this.enterGuessing()
+  }
+
+  // Anyone in the room can flag an answer they can see; the host decides whether to hide it
+  private reportAnswer(actorId: PlayerId, authorId: PlayerId) {
+    const room = this.data
+    const round = room.currentRound
+    if (!round || !this.player(actorId) || actorId === authorId || !answersPublic(room) || !round.answers[authorId]) return
+    if (round.reported?.includes(authorId)) return
+    round.reported = [...(round.reported ?? []), authorId]
+    this.emitState()
+  }
+
+  // Hidden answers drop out of room:state and the history, but still count as given
+  private hideAnswer(actorId: PlayerId, authorId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can hide answers')
+    const round = room.currentRound
+    if (!round?.answers[authorId] || round.hiddenAnswers?.includes(authorId)) return
+    round.hiddenAnswers = [...(round.hiddenAnswers ?? []), authorId]
+    // hidden during the reveal: the round is already on record, as the latest entry
+    for (const record of [room.history.at(-1), room.match?.rounds.at(-1)]) {
+      if (record?.id === round.id) delete record.answers[authorId]
+    }
+    this.emitState()
+  }
+
+  // Sequential answering: pass the turn to the next connected answerer, or to the guesser once
+  // everyone has had theirs. Sends room:state either way.
+  private nextTurn() {
+    const room = this.data
+    const round = room.currentRound
+    if (!round?.turnOrder) return
+    const from = round.currentAnswererId ? round.turnOrder.indexOf(round.currentAnswererId) + 1 : 0
+    const next = round.turnOrder.slice(from).find(id => this.player(id)?.connected)
+    if (!next) return this.enterGuessing()
+    round.currentAnswererId = next
+    const sec = room.settings.turnTimerSec
+    room.timers.answeringEndsAt = sec ? this.clock.now() + sec * 1000 : undefined
+    room.timers.answeringMs = (sec ?? 0) * 1000
+    if (room.timers.answeringEndsAt) this.emitTimer('room', 'answering', room.timers.answeringEndsAt)
+    this.emitState()
+  }
+
+  private extendTimer(actorId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can extend the timer')
+    if (room.phase !== 'answering' || !room.timers.answeringEndsAt) return
+    room.timers.answeringEndsAt += TIMER_EXTEND_SEC * 1000
+    room.timers.answeringMs = (room.timers.answeringMs ?? 0) + TIMER_EXTEND_SEC * 1000
+    this.emitTimer('room', 'answering', room.timers.answeringEndsAt)
+  }
+
+  // Host closes answering early (whoever has not answered yet gets "No answer"),
+  // or closes a party round's ordering and reveals with the orderings that are in
+  private advance(actorId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can move the round on')
+    if (room.phase === 'answering') this.enterGuessing()
+    else if (room.phase === 'guessing' && room.currentRound?.mode === 'party') this.revealParty()
+  }
+
+  // Answering is over (everyone answered, the timer ran out or the host moved on): hand over to the guesser
+  private enterGuessing() {
+    const room = this.data
+    const round = room.currentRound
+    if (!round) return
+    room.phase = 'guessing'
+    room.timers.answeringEndsAt = undefined
+    round.currentAnswererId = undefined
+    const missing = round.participants.filter(id => id !== round.guesserId && !round.answers[id])
+    if (missing.length > 0) {
+      round.timedOut = missing
+      this.emit('room', 'answer:timedOut', { playerIds: missing })
+    }
+    if (round.mode === 'party') {
+      round.orderings = {}
+      round.orderedIds = []
+      return this.emitState()
+    }
+    this.emit('room', 'guesser:needed', { guesserId: round.guesserId })
+    // initialize preview ordering by seat
+    round.orderingPreview = bySeat(room.players, round.participants)
+    this.emit('room', 'ordering:state', { ordering: round.orderingPreview })
+    this.emitState()
+  }
+
+  // The guesser dropped: freeze the round (and what was left of the answering timer) for a grace period
+  private pauseRound() {
+    const room = this.data
+    const round = room.currentRound
+    if (!round || (room.phase !== 'answering' && room.phase !== 'guessing')) return
+    const now = this.clock.now()
+    room.pause = {
+      guesserId: round.guesserId,
+      resumePhase: room.phase,
+      graceEndsAt: now + GUESSER_GRACE_SEC * 1000,
+      expired: false,
+      remainingMs: room.timers.answeringEndsAt ? Math.max(0, room.timers.answeringEndsAt - now) : undefined,
+    }
+    room.timers.answeringEndsAt = undefined
+    room.phase = 'paused'
+    this.emitTimer('room', 'paused', room.pause.graceEndsAt)
+  }
+
+  // Pick the round up where it was paused, restarting the answering timer with the time that was left
+  private resumeRound() {
+    const room = this.data
+    const round = room.currentRound
+    const pause = room.pause
+    if (!round || !pause) return
+    room.pause = undefined
+    room.phase = pause.resumePhase
+    if (pause.resumePhase === 'answering') {
+      // sequential rounds without a turn timer have nothing to restart
+      if (pause.remainingMs === undefined) return
+      room.timers.answeringEndsAt = this.clock.now() + pause.remainingMs
+      this.emitTimer('room', 'answering', room.timers.answeringEndsAt)
+    } else {
+      this.emit('room', 'guesser:needed', { guesserId: round.guesserId })
+      this.emit('room', 'ordering:state', { ordering: round.orderingPreview ?? bySeat(room.players, round.participants) })
+    }
+  }
+
+  private reassignGuesser(actorId: PlayerId, targetId: PlayerId) {
+    const room = this.data
+    const round = room.currentRound
+    this.requireHost(actorId, 'Only host can reassign the guesser')
+    if (room.phase !== 'paused' || !room.pause || !round) return
+    if (!room.pause.expired) throw new GameError(ErrorCode.GRACE_PERIOD, 'The guesser may still reconnect')
+    const target = this.player(targetId)
+    if (!target?.connected || !round.participants.includes(targetId) || targetId === round.guesserId) {
+      throw new GameError(ErrorCode.NOT_PLAYER, 'The new guesser must be a connected player in this round')
+    }
+    round.guesserId = targetId
+    // while answering, the new guesser's answer no longer counts; the old guesser now owes one
+    if (room.pause.resumePhase === 'answering') round.answers[targetId] = ''
+    this.resumeRound()
+    if (round.turnOrder) {
+      const order = round.turnOrder
+      const at = order.indexOf(targetId)
+      round.turnOrder = order.filter(id => id !== targetId)
+      // it was the new guesser's turn: carry on with whoever sat after them
+      if (round.currentAnswererId === targetId) {
+        round.currentAnswererId = order[at - 1]
+        return this.nextTurn()
+      }
+    }
+    this.emitState()
+  }
+
+  // Party players order everyone but themselves
+  private coversParticipants(ordering: PlayerId[], except?: PlayerId): boolean {
+    const participants = (this.data.currentRound?.participants ?? []).filter(id => id !== except)
+    const set = new Set(ordering)
+    return set.size === participants.length && participants.every(id => set.has(id))
+  }
+
+  private previewOrdering(actorId: PlayerId, ordering: PlayerId[]) {
+    const room = this.data
+    const round = room.currentRound
+    if (room.phase !== 'guessing' || !round) return
+    if (actorId !== round.guesserId || !this.coversParticipants(ordering)) return
+    round.orderingPreview = ordering.slice()
+    this.emit('room', 'ordering:state', { ordering: round.orderingPreview })
+  }
+
+  private submitOrdering(actorId: PlayerId, ordering: PlayerId[]) {
+    const room = this.data
+    const round = room.currentRound
+    if (room.phase !== 'guessing' || !round) return
+    if (round.mode === 'party') return this.submitPartyOrdering(actorId, ordering)
+    if (actorId !== round.guesserId) throw new GameError(ErrorCode.NOT_GUESSER, 'Only guesser can submit ordering')
+    if (!this.coversParticipants(ordering)) {
+      throw new GameError(ErrorCode.INVALID_ORDERING, 'Ordering must include all participants exactly once')
+    }
+    round.orderingGuess = ordering.slice()
+    const trueOrder = trueOrderOf(round)
+    room.phase = 'reveal'
+    // compute win and update stats; tied numbers may be placed either way round
+    const isWin = isOrdered(round.orderingGuess, round.numbers)
+    if (!room.stats) room.stats = { wins: 0, losses: 0 }
+    if (!(room.settings.excludeBotStats && this.player(round.guesserId)?.bot)) {
+      if (isWin) room.stats.wins += 1; else room.stats.losses += 1
+    }
+    if (room.settings.scoringEnabled) {
+      round.scores = scoreRound(round, trueOrder)
+      for (const p of room.players) p.score += round.scores.deltas[p.id] ?? 0
+    }
+    // update guesser history; stay in reveal until host advances
+    const g = this.player(round.guesserId)
+    if (g) g.lastGuessedRound = round.index
+    this.recordRound(trueOrder, isWin)
+    this.emit('room', 'round:result', { trueOrder, numbers: round.numbers, submitted: round.orderingGuess, isWin, scores: round.scores })
+    this.emitState()
+  }
+
+  // Party rounds: every participant may submit (and resubmit) until the last connected one is in
+  private submitPartyOrdering(actorId: PlayerId, ordering: PlayerId[]) {
+    const round = this.data.currentRound!
+    if (!round.participants.includes(actorId)) throw new GameError(ErrorCode.NOT_PLAYER, 'Only players in this round can submit an ordering')
+    if (!this.coversParticipants(ordering, actorId)) {
+      throw new GameError(ErrorCode.INVALID_ORDERING, 'Ordering must include every other participant exactly once')
+    }
+    round.orderings![actorId] = ordering.slice()
+    round.orderedIds = Object.keys(round.orderings!)
+    if (this.partyComplete()) return this.revealParty()
+    this.emitState()
+  }
+
+  private partyComplete(): boolean {
+    const round = this.data.currentRound!
+    return round.participants.every(id => round.orderings?.[id] || !this.player(id)?.connected)
+  }
+
+  private revealParty() {
+    const room = this.data
+    const round = room.currentRound!
+    const trueOrder = trueOrderOf(round)
+    room.phase = 'reveal'
+    round.partyScores = scorePartyRound(round, trueOrder)
+    if (room.settings.scoringEnabled) {
+      for (const s of round.partyScores) {
+        const p = this.player(s.playerId)
+        if (p) p.score += s.points
+      }
+    }
+    this.recordRound(trueOrder)
+    this.emit('room', 'round:result', { trueOrder, numbers: round.numbers, party: round.partyScores })
+    this.emitState()
+  }
+
+  // Keep the revealed round in the history and the match; the round that reaches the match length ends the match
+  private recordRound(trueOrder: PlayerId[], isWin?: boolean) {
+    const room = this.data
+    const round = room.currentRound!
+    const reads = roundReads(round, trueOrder)
+    const record: RoundRecord = {
+      id: round.id,
+      index: round.index,
+      endedAt: this.clock.now(),
+      mode: round.mode,
+      prompt: round.prompt,
+      guesserId: round.guesserId,
+      names: Object.fromEntries(round.participants.map(id => [id, this.player(id)?.name ?? '?'])),
+      answers: visibleAnswers(round),
+      numbers: round.numbers,
+      trueOrder,
+      submitted: round.orderingGuess,
+      isWin,
+      scores: round.scores,
+      party: round.partyScores,
+      reads,
+    }
+    room.history.push(record)
+    if (room.history.length > HISTORY_LIMIT) room.history.splice(0, room.history.length - HISTORY_LIMIT)
+    const match = room.match
+    if (!match) return
+    match.rounds.push(record)
+    for (const read of reads) match.guesses[read.playerId] = (match.guesses[read.playerId] ?? 0) + 1
+    if (matchComplete(match, room.settings, seatedPlayers(room.players))) {
+      match.finished = true
+      Object.assign(match, bestAndWorstReads(match))
+    }
+  }
+
+  // A fresh match from the lobby: round numbers, wins/losses, scores and guesser rotation start over
+  private rematch(actorId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can start a rematch')
+    if (room.phase !== 'lobby' && room.phase !== 'reveal') throw new GameError(ErrorCode.ROUND_IN_PROGRESS, 'Finish the round first')
+    room.roundCounter = 0
+    room.stats = { wins: 0, losses: 0 }
+    room.match = undefined
+    room.currentRound = undefined
+    room.phase = 'lobby'
+    for (const p of room.players) {
+      p.score = 0
+      p.lastGuessedRound = undefined
+    }
+    this.emitState()
+  }
+
+  private endRound(actorId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can end round')
+    room.timers.answeringEndsAt = undefined
+    room.currentRound = undefined
+    room.pause = undefined
+    room.phase = 'lobby'
+    this.emitState()
+  }
+
+  private nextRound(actorId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can advance')
+    // Only advance from reveal
+    if (room.phase !== 'reveal') return
+    room.currentRound = undefined
+    room.phase = 'lobby'
+    this.emitState()
+  }
+
+  // Discard queued prompts: one by id, or the whole queue when promptId is omitted
+  private skip(actorId: PlayerId, promptId?: string) {
+    const room = this.data
+    this.requireHost(actorId, promptId ? 'Only host can skip prompts' : 'Only host can reroll prompts')
+    skipPrompts(room, this.packs, room.settings.promptPackIds, promptId, this.rng)
+    this.emitPromptQueue()
+  }
+
+  private suggest(actorId: PlayerId, { text, low, high }: ClientPayload<'prompt:suggest'>) {
+    const room = this.data
+    if (room.phase !== 'lobby') return
+    const me = this.player(actorId)
+    if (!me || me.role !== 'player') throw new GameError(ErrorCode.NOT_PLAYER, 'Only seated players can suggest prompts')
+    const mine = room.promptVote.suggestions.filter(sg => sg.authorId === actorId).length
+    if (mine >= MAX_SUGGESTIONS_PER_PLAYER || room.promptVote.suggestions.length >= MAX_SUGGESTIONS) {
+      throw new GameError(ErrorCode.TOO_MANY_SUGGESTIONS, 'Suggestion limit reached')
+    }
+    const cleaned = cleanSuggestion(text, low, high, t => this.censor(t))
+    if (typeof cleaned === 'string') throw new GameError(ErrorCode.INVALID_SUGGESTION, cleaned)
+    room.promptVote.suggestions.push({ id: `suggested/${this.newId()}`, packId: 'suggested', ...cleaned, authorId: actorId, votes: 0 })
+    this.emitState()
+  }
+
+  private withdraw(actorId: PlayerId, suggestionId: string) {
+    const room = this.data
+    if (room.phase !== 'lobby') return
+    const sug = room.promptVote.suggestions.find(sg => sg.id === suggestionId)
+    if (!sug) return
+    if (sug.authorId !== actorId && room.hostId !== actorId) throw new GameError(ErrorCode.NOT_AUTHOR, 'Only the author or host can remove a suggestion')
+    room.promptVote.suggestions = room.promptVote.suggestions.filter(sg => sg.id !== suggestionId)
+    if (room.promptVote.winnerId === suggestionId) room.promptVote.winnerId = undefined
+    this.emitState()
+  }
+
+  private startVote(actorId: PlayerId) {
+    const room = this.data
+    this.requireHost(actorId, 'Only host can start the vote')
+    if (room.phase !== 'lobby') return
+    if (room.promptVote.suggestions.length === 0) throw new GameError(ErrorCode.NO_SUGGESTIONS, 'Nobody has suggested a prompt yet')
+    room.phase = 'promptVoting'
+    room.ballots = {}
+    room.promptVote.votedIds = []
+    room.promptVote.winnerId = undefined
+    for (const sug of room.promptVote.suggestions) sug.votes = 0
+    room.promptVote.endsAt = this.clock.now() + VOTE_DURATION_SEC * 1000
+    this.emitTimer('room', 'promptVoting', room.promptVote.endsAt)
+    this.emitState()
+  }
+
+  private castVote(actorId: PlayerId, suggestionId: string) {
+    const room = this.data
+    if (room.phase !== 'promptVoting') return
+    const me = this.player(actorId)
+    if (!me || me.role !== 'player') throw new GameError(ErrorCode.NOT_PLAYER, 'Only seated players can vote')
+    if (!room.promptVote.suggestions.some(sg => sg.id === suggestionId)) return
+    room.ballots[actorId] = suggestionId
+    room.promptVote.votedIds = Object.keys(room.ballots)
+    // close early once every connected seated human has voted (bots don't vote)
+    const voters = seatedPlayers(room.players).filter(p => p.connected && !p.bot)
+    if (voters.every(p => room.ballots[p.id])) return this.finishVote()
+    this.emitState()
+  }
+
+  private finishVote() {
+    const room = this.data
+    if (room.phase !== 'promptVoting') return
+    const winner = tallyVotes(room.promptVote.suggestions, room.ballots)
+    room.promptVote.winnerId = winner?.id
+    room.promptVote.endsAt = undefined
+    room.promptVote.votedIds = []
+    room.ballots = {}
+    room.phase = 'lobby'
+    this.emit('room', 'vote:result', { winnerId: winner?.id, tally: Object.fromEntries(room.promptVote.suggestions.map(sg => [sg.id, sg.votes])) })
+    this.emitState()
+  }
+}
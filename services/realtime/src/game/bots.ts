@@ -0,0 +1,62 @@
+import type { PlayerId, Prompt, Round } from '@sequencing/protocol'
+import type { Rng } from './types.js'
+
+// Bots answer from templates keyed by number on a 1..10 scale, whatever the room's deck range
+export type AnswerTemplates = Record<string, string>
+
+export const BOT_NAMES = ['Robo', 'Beep', 'Chip', 'Sprocket', 'Widget', 'Pixel', 'Gizmo', 'Bolt']
+
+// Used when a prompt has no templates of its own; {low}/{high} are the prompt's axis labels
+const GENERIC_TEMPLATES: AnswerTemplates = {
+  1: 'As {low} as it gets',
+  3: 'Pretty {low}',
+  5: 'Right in the middle',
+  7: 'Fairly {high}',
+  10: 'Completely {high}',
+}
+
+export function toScale(n: number, deck: { min: number; max: number }): number {
+  return 1 + 9 * (n - deck.min) / (deck.max - deck.min)
+}
+
+function render(template: string, prompt: Prompt): string {
+  return template.replace('{low}', prompt.low.toLowerCase()).replace('{high}', prompt.high.toLowerCase())
+}
+
+// The template closest to the bot's number (ties go to the lower key)
+export function botAnswer(prompt: Prompt, number: number, deck: { min: number; max: number }, templates?: AnswerTemplates): string {
+  const pool = templates && Object.keys(templates).length > 0 ? templates : GENERIC_TEMPLATES
+  const at = toScale(number, deck)
+  const key = Object.keys(pool).sort((a, b) => Math.abs(Number(a) - at) - Math.abs(Number(b) - at) || Number(a) - Number(b))[0]
+  return render(pool[key], prompt)
+}
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[a-z']+/g) ?? [])
+
+// Where on the 1..10 scale an answer seems to sit: templated answers (other bots') are read exactly,
+// anything else by the words it shares with the low and high labels, the middle when in doubt
+export function guessScale(answer: string, prompt: Prompt, templates?: AnswerTemplates): number {
+  const pool = templates && Object.keys(templates).length > 0 ? templates : GENERIC_TEMPLATES
+  for (const [key, template] of Object.entries(pool)) if (render(template, prompt) === answer) return Number(key)
+  const said = words(answer)
+  const hits = (label: string) => [...words(label)].filter(w => said.has(w)).length
+  return Math.min(10, Math.max(1, 5.5 + 2 * (hits(prompt.high) - hits(prompt.low))))
+}
+
+// A bot's ordering: everyone (but itself in party rounds) by estimated position, itself by its real number
+export function botOrdering(round: Round, botId: PlayerId, deck: { min: number; max: number }, templates?: AnswerTemplates): PlayerId[] {
+  const estimate = (id: PlayerId) => id === botId
+    ? toScale(round.numbers[id], deck)
+    : guessScale(round.answers[id] ?? '', round.prompt, templates)
+  return round.participants
+    .filter(id => round.mode !== 'party' || id !== botId)
+    .map(id => ({ id, at: estimate(id) }))
+    .sort((a, b) => a.at - b.at)
+    .map(e => e.id)
+}
+
+// How long a bot "thinks": 2-6s, but always a second before `endsAt`
+export function botDelay(now: number, rng: Rng, endsAt?: number): number {
+  const at = now + 2000 + rng() * 4000
+  return endsAt ? Math.min(at, Math.max(now, endsAt - 1000)) : at
+}
@@ -0,0 +1,56 @@
+import type { PlayerId } from '@sequencing/protocol'
+import type { GameRoom } from './GameRoom.js'
+import type { Clock, Command, Emission, Rng } from './types.js'
+
+// Everything a node can ask of a room's owner
+export type RoomOp =
+  | { type: 'join', playerId: PlayerId, displayName?: string, spectate?: boolean, identity?: string, password?: string }
+  | { type: 'connect', playerId: PlayerId, socketId: string }
+  | { type: 'disconnect', playerId: PlayerId, socketId: string }
+  | { type: 'leave', playerId: PlayerId }
+  | { type: 'command', playerId: PlayerId, command: Command }
+
+// An op or a timer firing: the only ways a room changes
+export type RoomInput = RoomOp | { type: 'tick' }
+
+export function applyOp(game: GameRoom, op: RoomInput): Emission[] {
+  switch (op.type) {
+    case 'join': return game.join(op.displayName, { spectate: op.spectate, playerId: op.playerId, identity: op.identity, password: op.password }).out
+    case 'connect': return game.connect(op.playerId)
+    case 'disconnect': return game.disconnect(op.playerId)
+    case 'leave': return game.leave(op.playerId)
+    case 'command': return game.handle(op.playerId, op.command)
+    case 'tick': return game.tick()
+  }
+}
+
+// mulberry32: small, fast and good enough to deal cards
+export function seededRng(seed: number): Rng {
+  let s = seed >>> 0
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0
+    let t = s
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+  }
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 32)
+
+const ID_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_-'
+
+// Makes a room reproducible: each input runs at one frozen time with its own RNG seed (ids included),
+// so logging (at, seed, input) is enough to replay it. Pass `clock`, `rng` and `newId` to the GameRoom.
+export class OpContext {
+  private at = 0
+  private random: Rng = seededRng(0)
+  readonly clock: Clock = { now: () => this.at }
+  readonly rng: Rng = () => this.random()
+  readonly newId = () => Array.from({ length: 12 }, () => ID_ALPHABET[Math.floor(this.random() * ID_ALPHABET.length)]).join('')
+
+  begin(at: number, seed: number) {
+    this.at = at
+    this.random = seededRng(seed)
+  }
+}
@@ -0,0 +1,219 @@
+import type { Match, MatchRead, PartyScore, Player, PlayerId, PromptSuggestion, RoomSettings, Round, RoundScores } from '@sequencing/protocol'
+import type { Rng } from './types.js'
+
+export function shuffle<T>(items: T[], rng: Rng): T[] {
+  const out = items.slice()
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]]
+  }
+  return out
+}
+
+export function seatIndexForNewPlayer(players: Player[]): number {
+  const seats = new Set(players.map(p => p.seat))
+  for (let i = 0; i <= players.length; i++) if (!seats.has(i)) return i
+  return players.length
+}
+
+export function seatedPlayers(players: Player[]): Player[] {
+  return players.filter(p => p.role === 'player')
+}
+
+export function bySeat(players: Player[], ids: PlayerId[]): PlayerId[] {
+  return players
+    .filter(p => ids.includes(p.id))
+    .sort((a, b) => a.seat - b.seat)
+    .map(p => p.id)
+}
+
+const COLOR_PALETTE = [
+  '#ef4444','#f97316','#eab308','#84cc16','#22c55e','#14b8a6','#06b6d4','#3b82f6','#8b5cf6','#db2777'
+]
+export function colorForId(id: string): string {
+  let h = 0
+  for (let i=0;i<id.length;i++) { h = (h*31 + id.charCodeAt(i)) >>> 0 }
+  return COLOR_PALETTE[h % COLOR_PALETTE.length]
+}
+
+export function ensureUniqueName(players: Player[], desired: string): string {
+  const base = desired.trim() || 'Player'
+  const names = new Set(players.map(p => p.name))
+  if (!names.has(base)) return base
+  let n = 2
+  while (names.has(`${base} #${n}`)) n++
+  return `${base} #${n}`
+}
+
+const PROFANE = [/\bshit\b/i,/\bfuck\b/i,/\bass\b/i,/\bcunt\b/i,/\bbitch\b/i]
+export function filterProfanity(text: string): string {
+  let out = text
+  for (const re of PROFANE) out = out.replace(re, (m) => '*'.repeat(m.length))
+  return out
+}
+
+// Mask every whole-word occurrence of the given words, in any case
+export function maskWords(text: string, words: string[]): string {
+  let out = text
+  for (const word of words) {
+    const re = new RegExp(`(?<![\\p{L}\\p{N}])${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\p{L}\\p{N}])`, 'giu')
+    out = out.replace(re, (m) => '*'.repeat(m.length))
+  }
+  return out
+}
+
+// Prefer connected seated players who never guessed (random among them),
+// otherwise the one who guessed longest ago.
+export function chooseGuesser(players: Player[], rng: Rng): PlayerId {
+  const seated = seatedPlayers(players)
+  const never = seated.filter(p => p.connected && p.lastGuessedRound === undefined)
+  if (never.length > 0) {
+    const idx = Math.floor(rng() * never.length)
+    return never[idx].id
+  }
+  // pick player with the smallest lastGuessedRound
+  const sorted = seated.filter(p => p.connected && p.lastGuessedRound !== undefined)
+    .sort((a, b) => (a.lastGuessedRound! - b.lastGuessedRound!))
+  return (sorted[0] ?? seated[0]).id
+}
+
+// Who takes over as host: the seated player who has been connected the longest, else a connected spectator.
+// Bots never host.
+export function nextHost(players: Player[], connectedSince: Record<PlayerId, number>, exclude?: PlayerId): Player | undefined {
+  const since = (p: Player) => connectedSince[p.id] ?? Infinity
+  return players
+    .filter(p => p.connected && !p.bot && p.id !== exclude)
+    .sort((a, b) => Number(a.role !== 'player') - Number(b.role !== 'player') || since(a) - since(b))[0]
+}
+
+// Sequential answering goes clockwise (increasing seat), starting at the guesser's left
+// (party rounds have no guesser and start at the lowest seat)
+export function turnOrderFrom(players: Player[], participants: PlayerId[], guesserId: PlayerId): PlayerId[] {
+  const seated = bySeat(players, participants)
+  const at = seated.indexOf(guesserId)
+  if (at === -1) return seated
+  return [...seated.slice(at + 1), ...seated.slice(0, at)]
+}
+
+// One number per player from the deck range [min, max]: drawn without replacement unless ties are allowed
+export function dealNumbers(players: Player[], rng: Rng, deck: { min: number; max: number; allowTies?: boolean }): Record<PlayerId, number> {
+  const size = deck.max - deck.min + 1
+  const draw = deck.allowTies
+    ? players.map(() => deck.min + Math.floor(rng() * size))
+    : shuffle(Array.from({ length: size }, (_, i) => deck.min + i), rng)
+  const numbers: Record<PlayerId, number> = {}
+  players.forEach((p, i) => { numbers[p.id] = draw[i] })
+  return numbers
+}
+
+export function trueOrderOf(round: Round): PlayerId[] {
+  return [...round.participants].sort((a, b) => round.numbers[a] - round.numbers[b])
+}
+
+// Positions in `trueOrder` where `id` could stand: players holding equal numbers share their positions
+function truePositions(id: PlayerId, trueOrder: PlayerId[], numbers: Record<PlayerId, number>): [number, number] {
+  const first = trueOrder.findIndex(other => numbers[other] === numbers[id])
+  const tied = trueOrder.filter(other => numbers[other] === numbers[id]).length
+  return [first, first + tied - 1]
+}
+
+// How many of `ordering` hold the number that belongs at their position
+function exactPlacements(ordering: PlayerId[], trueOrder: PlayerId[], numbers: Record<PlayerId, number>): number {
+  return ordering.filter((id, i) => numbers[id] === numbers[trueOrder[i]]).length
+}
+
+// PRD scoring: guesser +1 per correctly placed player and +N for a perfect order;
+// every other participant +1 when placed within ±1 of their true position.
+export function scoreRound(round: Round, trueOrder: PlayerId[]): RoundScores {
+  const submitted = round.orderingGuess ?? []
+  const correct = exactPlacements(submitted, trueOrder, round.numbers)
+  const perfectBonus = correct === trueOrder.length ? trueOrder.length : 0
+  const deltas: Record<PlayerId, number> = {}
+  const withinOne: PlayerId[] = []
+  for (const id of round.participants) {
+    if (id === round.guesserId) continue
+    const at = submitted.indexOf(id)
+    const [first, last] = truePositions(id, trueOrder, round.numbers)
+    const ok = at >= first - 1 && at <= last + 1
+    if (ok) withinOne.push(id)
+    deltas[id] = ok ? 1 : 0
+  }
+  deltas[round.guesserId] = correct + perfectBonus
+  return { deltas, guesser: { playerId: round.guesserId, correct, perfectBonus }, withinOne }
+}
+
+// Number of pairs that `ordering` puts the wrong way round; equal numbers are never a wrong pair
+export function kendallTauDistance(ordering: PlayerId[], numbers: Record<PlayerId, number>): number {
+  let discordant = 0
+  for (let i = 0; i < ordering.length; i++) {
+    for (let j = i + 1; j < ordering.length; j++) {
+      if (numbers[ordering[i]] > numbers[ordering[j]]) discordant++
+    }
+  }
+  return discordant
+}
+
+// Party rounds: each ordering is judged against the true order of the players it placed.
+// +1 per exact position and +N for a perfect order, as for the classic guesser. Best read first.
+export function scorePartyRound(round: Round, trueOrder: PlayerId[]): PartyScore[] {
+  return Object.entries(round.orderings ?? {})
+    .map(([playerId, ordering]) => {
+      const truth = trueOrder.filter(id => id !== playerId)
+      const exact = exactPlacements(ordering, truth, round.numbers)
+      const perfect = exact === truth.length ? truth.length : 0
+      return { playerId, ordering, exact, kendallTau: kendallTauDistance(ordering, round.numbers), points: exact + perfect }
+    })
+    .sort((a, b) => a.kendallTau - b.kendallTau || b.exact - a.exact)
+}
+
+// The reads of a revealed round, best first: the guesser's, or in party rounds everyone's
+export function roundReads(round: Round, trueOrder: PlayerId[]): MatchRead[] {
+  const roundIndex = round.index
+  if (round.mode === 'party') {
+    return (round.partyScores ?? []).map(({ playerId, exact, kendallTau }) => ({ roundIndex, playerId, exact, kendallTau }))
+  }
+  const submitted = round.orderingGuess ?? []
+  return [{
+    roundIndex,
+    playerId: round.guesserId,
+    exact: exactPlacements(submitted, trueOrder, round.numbers),
+    kendallTau: kendallTauDistance(submitted, round.numbers),
+  }]
+}
+
+// Whether the match has reached its length; `seated` are the players who all need their guesses in
+export function matchComplete(match: Match, settings: RoomSettings, seated: Player[]): boolean {
+  const length = settings.matchLength ?? 1
+  if (settings.matchMode === 'rounds') return match.rounds.length >= length
+  if (settings.matchMode === 'guesses') return seated.every(p => (match.guesses[p.id] ?? 0) >= length)
+  return false
+}
+
+// Closest and furthest reads of the whole match (fewest wrong pairs, then most exact positions)
+export function bestAndWorstReads(match: Match): { best?: MatchRead; worst?: MatchRead } {
+  const reads = match.rounds.flatMap(r => r.reads).sort((a, b) => a.kendallTau - b.kendallTau || b.exact - a.exact)
+  return { best: reads[0], worst: reads.at(-1) }
+}
+
+// Returns the cleaned suggestion or an error message; `censor` masks whatever the room blocks
+export function cleanSuggestion(text: string, low: string, high: string, censor: (text: string) => string = t => t): { text: string, low: string, high: string } | string {
+  const clean = (v: string, max: number) => censor(v.trim().slice(0, max))
+  const t = clean(text, 140)
+  const lo = clean(low, 40)
+  const hi = clean(high, 40)
+  if (t.length < 3) return 'Prompt must be at least 3 characters'
+  if (!lo || !hi) return 'Both axis labels are required'
+  return { text: t, low: lo, high: hi }
+}
+
+// Most votes wins; ties go to the earliest suggestion. No votes at all means no winner.
+export function tallyVotes(suggestions: PromptSuggestion[], ballots: Record<PlayerId, string>): PromptSuggestion | undefined {
+  for (const sug of suggestions) sug.votes = 0
+  for (const id of Object.values(ballots)) {
+    const sug = suggestions.find(s => s.id === id)
+    if (sug) sug.votes += 1
+  }
+  let best: PromptSuggestion | undefined
+  for (const sug of suggestions) if (sug.votes > 0 && (!best || sug.votes > best.votes)) best = sug
+  return best
+}
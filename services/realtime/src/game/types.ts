@@ -0,0 +1,59 @@
+import type { Ban, ClientEvent, ClientPayload, ErrorCode, PlayerId, RoomState, RoundRecord, ServerToClientEvents } from '@sequencing/protocol'
+import type { PromptPack, PromptState } from '../prompts.js'
+
+export type Clock = { now(): number }
+export type Rng = () => number // uniform in [0, 1)
+
+export const systemClock: Clock = { now: () => Date.now() }
+
+export type GameRoomOptions = {
+  packs: Map<string, PromptPack>
+  clock?: Clock
+  rng?: Rng
+  newId?: () => string // player and suggestion ids
+  idleMs?: number // close a new room after this long without player input; kept with the room
+}
+
+// Where an emission goes: everyone in the room, or one player's socket
+export type Target = 'room' | { player: PlayerId }
+
+export type Emission = {
+  [E in keyof ServerToClientEvents]: { to: Target; event: E; payload: Parameters<ServerToClientEvents[E]>[0] }
+}[keyof ServerToClientEvents]
+
+// Room lifecycle (create/join/leave/resume) has dedicated GameRoom methods and clock sync stays in the
+// transport; everything else is a command
+export type CommandEvent = Exclude<ClientEvent, 'session:hello' | 'clock:ping' | 'room:create' | 'room:join' | 'room:leave'>
+
+export type Command = {
+  [E in CommandEvent]: { type: E; payload: ClientPayload<E> }
+}[CommandEvent]
+
+// Full server-side room state; plain data so it can be snapshotted
+export type RoomData = RoomState & PromptState & {
+  roundCounter: number
+  roundsDealt: number // every round this room has dealt; rematch doesn't reset it, so round ids stay unique
+  ballots: Record<PlayerId, string> // secret: voter -> suggestion id
+  connectedSince: Record<PlayerId, number> // connected players only; decides host failover
+  disconnectedAt: Record<PlayerId, number> // disconnected humans; long-gone ones are dropped between rounds
+  history: RoundRecord[] // revealed rounds, oldest first; capped at HISTORY_LIMIT
+  identities: Record<PlayerId, string> // secret: the clientId each human joined with
+  banned: (Ban & { identity: string })[] // public as RoomState.bans, without the identity; capped at MAX_BANS
+  password?: string // secret; see RoomState.passwordProtected
+  idleMs?: number // see GameRoomOptions.idleMs
+  timers: {
+    answeringEndsAt?: number
+    answeringMs?: number // the answering timer's full length, extensions included; kept across a pause
+    hostFailoverAt?: number // the disconnected host loses the role at this time
+    botActions?: Record<PlayerId, number> // when each bot with something to do gets round to it
+    expiresAt?: number // the room closes for inactivity; warned (RoomState.closingAt) shortly before
+  }
+}
+
+// A rejected command; the transport reports it to the caller as `error { code, message }`
+export class GameError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message)
+    this.name = 'GameError'
+  }
+}
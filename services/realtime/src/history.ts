@@ -0,0 +1,20 @@
+import { ErrorCode } from '@sequencing/protocol'
+import type { RoomStore } from './cluster/store.js'
+import type { RoomData } from './game/types.js'
+
+export type HistoryCredentials = { token?: string, password?: string }
+export type HistoryRefusal = { status: number, code: ErrorCode, message: string }
+
+// Who may read a room's history over HTTP. A live resume token for a seat in the room always works.
+// Otherwise the room has to let the caller in the way room:join would: not while it is locked, and
+// only with the password if it has one. Returns why the request is refused, or undefined to serve it.
+export async function historyAccess(store: RoomStore, room: RoomData, creds: HistoryCredentials, issuedAfter: number): Promise<HistoryRefusal | undefined> {
+  const session = creds.token ? await store.getSession(creds.token) : undefined
+  if (session && session.roomCode === room.code && session.issuedAt > issuedAfter && room.players.some(p => p.id === session.playerId)) return undefined
+  if (room.settings.locked) return { status: 403, code: ErrorCode.ROOM_LOCKED, message: 'The host has locked this room' }
+  if (room.password && creds.password !== room.password) {
+    if (!creds.password) return { status: 401, code: ErrorCode.PASSWORD_REQUIRED, message: 'This room needs a password' }
+    return { status: 403, code: ErrorCode.WRONG_PASSWORD, message: 'Wrong room password' }
+  }
+  return undefined
+}
@@ -1,520 +1,378 @@
 import Fastify from 'fastify'
 import { Server as IOServer } from 'socket.io'
 import { customAlphabet, nanoid } from 'nanoid'
+import {
+  type ClientEvent, type ClientPayload, type ClientToServerEvents, ErrorCode, type PayloadIssue, type PlayerId, PROTOCOL_VERSION, type ServerToClientEvents,
+} from '@sequencing/protocol'
+import { parsePayload } from './schemas.js'
+import { loadPromptPacks, summarizePacks } from './prompts.js'
+import { FileStorage } from './storage.js'
+import { FileEventLog } from './eventlog.js'
+import { historyAccess } from './history.js'
+import { logger } from './logger.js'
+import { ServerMetrics } from './metrics.js'
+import { clientIp, eventLimit, Lockout, SocketLimiter, trustedProxies, WindowLimiter } from './ratelimit.js'
+import { type Command, type CommandEvent, type Emission, GameError } from './game/types.js'
+import { BrokerClient } from './cluster/broker.js'
+import { type Bus, MemoryBus } from './cluster/bus.js'
+import { RoomRouter } from './cluster/router.js'
+import { MemoryStore, type RoomStore } from './cluster/store.js'
 
 const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
 const nano = customAlphabet(alphabet, 6)
 
 function createRoomCode() { return nano() }
 
-type PlayerId = string
-
-type Player = {
-  id: PlayerId
-  name: string
-  seat: number
-  lastGuessedRound?: number
-  connected: boolean
-  color: string
-}
-
-type RoomSettings = {
-  maxPlayers: number
-  scoringEnabled: boolean
-  roundTimerSec?: number
-  profanityFilterEnabled?: boolean
-}
-
-type Round = {
-  id: string
-  index: number
-  guesserId: PlayerId
-  prompt: string
-  numbers: Record<PlayerId, number>
-  answers: Record<PlayerId, string>
-  orderingGuess?: PlayerId[]
-  participants: PlayerId[]
-  orderingPreview?: PlayerId[]
-}
-
-type RoomState = {
-  code: string
-  hostId: PlayerId
-  players: Player[]
-  settings: RoomSettings
-  phase: 'lobby' | 'answering' | 'guessing' | 'reveal'
-  currentRound?: Round
-  stats?: { wins: number; losses: number }
-}
-
-type Room = RoomState & {
-  sockets: Map<PlayerId, string> // playerId -> socketId
-  roundCounter: number
-  timers?: {
-    answering?: NodeJS.Timeout
-    answeringTick?: NodeJS.Timeout
-    answeringEndsAt?: number
-  }
-}
-
-const rooms = new Map<string, Room>()
-const sessions = new Map<string, { roomCode: string, playerId: PlayerId, issuedAt: number }>()
-
-// Basic per-IP rate limit (windowed counter)
+// Opening seats (room:create, room:join) is also limited per client IP, on top of each socket's buckets
 const RATE_WINDOW_MS = 60_000
 const RATE_LIMIT = 20 // ops per window
-const ipHits = new Map<string, { count: number; windowStart: number }>()
-function rateCheck(ip: string | undefined): boolean {
-  const key = ip || 'unknown'
-  const now = Date.now()
-  const rec = ipHits.get(key)
-  if (!rec || now - rec.windowStart > RATE_WINDOW_MS) {
-    ipHits.set(key, { count: 1, windowStart: now })
-    return true
-  }
-  if (rec.count >= RATE_LIMIT) return false
-  rec.count += 1
-  return true
-}
+const ipHits = new WindowLimiter(RATE_LIMIT, RATE_WINDOW_MS)
+// Guessing room codes: 10 unknown codes or wrong passwords within 5 minutes locks the IP out of joining for 15
+const roomGuesses = new Lockout(10, 5 * 60_000, 15 * 60_000)
+// Behind Apache every socket comes from 127.0.0.1; the client's address is in X-Forwarded-For
+const trusted = trustedProxies(process.env.TRUST_PROXY)
 
 // Session token TTL
 const TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
 
-function seatIndexForNewPlayer(players: Player[]): number {
-  const seats = new Set(players.map(p => p.seat))
-  for (let i = 0; i <= players.length; i++) if (!seats.has(i)) return i
-  return players.length
-}
-
-const COLOR_PALETTE = [
-  '#ef4444','#f97316','#eab308','#84cc16','#22c55e','#14b8a6','#06b6d4','#3b82f6','#8b5cf6','#db2777'
+// Rooms close after this long without player input (ROOM_IDLE_MINUTES, default 30)
+const ROOM_IDLE_MS = Math.max(Number(process.env.ROOM_IDLE_MINUTES) || 30, 2) * 60_000
+// Caps: open rooms across the cluster, and sockets on this node
+const MAX_ROOMS = Number(process.env.MAX_ROOMS) || 1000
+const MAX_SOCKETS = Number(process.env.MAX_SOCKETS) || 2000
+
+// Prompt packs are JSON files loaded once at startup (see packs/)
+const promptPacks = loadPromptPacks(process.env.PROMPT_PACKS_DIR || undefined)
+
+// Client events handled by GameRoom.handle(); session and membership events are wired up by hand below
+const COMMAND_EVENTS: CommandEvent[] = [
+  'settings:update', 'room:kick', 'room:ban', 'room:unban', 'room:setPassword', 'room:seatPlayer', 'room:shuffleSeats', 'room:transferHost', 'room:addBot', 'room:keepAlive', 'round:start',
+  'prompt:skip', 'prompt:reroll', 'prompt:suggest', 'prompt:withdraw', 'vote:start', 'vote:cast',
+  'answer:submit', 'answer:report', 'answer:hide', 'timer:extend', 'round:advance', 'ordering:preview', 'guesser:order', 'round:reassignGuesser', 'round:end', 'round:next',
+  'match:rematch', 'history:get',
 ]
-function colorForId(id: string): string {
-  let h = 0
-  for (let i=0;i<id.length;i++) { h = (h*31 + id.charCodeAt(i)) >>> 0 }
-  return COLOR_PALETTE[h % COLOR_PALETTE.length]
-}
 
-function ensureUniqueName(room: Room, desired: string): string {
-  const base = desired.trim() || 'Player'
-  const names = new Set(room.players.map(p => p.name))
-  if (!names.has(base)) return base
-  let n = 2
-  while (names.has(`${base} #${n}`)) n++
-  return `${base} #${n}`
-}
-
-const PROFANE = [/\bshit\b/i,/\bfuck\b/i,/\bass\b/i,/\bcunt\b/i,/\bbitch\b/i]
-function filterProfanity(text: string): string {
-  let out = text
-  for (const re of PROFANE) out = out.replace(re, (m) => '*'.repeat(m.length))
-  return out
-}
-
-function publicRoomState(room: Room): RoomState {
-  return {
-    code: room.code,
-    hostId: room.hostId,
-    players: room.players,
-    settings: room.settings,
-    phase: room.phase,
-  stats: room.stats,
-    currentRound: room.currentRound ? {
-      ...room.currentRound,
-      numbers: {} as any,
-      // Expose answers during guessing/reveal for UI
-      answers: (room.phase === 'guessing' || room.phase === 'reveal') ? room.currentRound.answers : ({} as any),
-    } : undefined,
+async function main() {
+  const fastify = Fastify({ logger: false })
+  const io = new IOServer<ClientToServerEvents, ServerToClientEvents>(fastify.server, { path: '/socket.io', serveClient: false, transports: ['websocket', 'polling'] })
+
+  // With BROKER_URL, rooms and sessions live in the shared broker and several nodes can serve them;
+  // otherwise this node keeps them in memory, snapshotted to DATA_DIR (if set) across restarts.
+  const nodeId = process.env.NODE_ID || nanoid(8)
+  let store: RoomStore
+  let bus: Bus
+  let memory: MemoryStore | undefined
+  if (process.env.BROKER_URL) {
+    const client = new BrokerClient(process.env.BROKER_URL)
+    await client.connect(() => { logger.error('lost connection to broker'); process.exit(1) })
+    store = client.store
+    bus = client
+  } else {
+    memory = new MemoryStore(process.env.DATA_DIR ? new FileStorage(process.env.DATA_DIR) : undefined)
+    await memory.load()
+    store = memory
+    bus = new MemoryBus()
   }
-}
-
-const BUILTIN_PROMPTS: string[] = [
-  'I just failed my driving test. What did I do wrong? (1 = Least embarrassing, 10 = Most embarrassing)',
-  'How spicy is this curry? (1 = Mild, 10 = Fire)',
-  'How early would I arrive to a party? (1 = Very late, 10 = Very early)',
-  'How likely am I to survive a zombie apocalypse? (1 = Not at all, 10 = Very likely)',
-]
 
-function pickPrompt(custom?: string): string {
-  if (custom && String(custom).trim().length > 0) return String(custom).trim()
-  return BUILTIN_PROMPTS[Math.floor(Math.random() * BUILTIN_PROMPTS.length)]
-}
-
-function chooseGuesser(room: Room): PlayerId {
-  const never = room.players.filter(p => p.connected && p.lastGuessedRound === undefined)
-  if (never.length > 0) {
-    const idx = Math.floor(Math.random() * never.length)
-    return never[idx].id
-  }
-  // pick player with the smallest lastGuessedRound
-  const sorted = [...room.players].filter(p => p.connected && p.lastGuessedRound !== undefined)
-    .sort((a, b) => (a.lastGuessedRound! - b.lastGuessedRound!))
-  return (sorted[0] ?? room.players[0]).id
-}
+  // Read-only round history for exports. Takes a seat's resume token (Authorization: Bearer <token>),
+  // or the room code with the password (X-Room-Password) if the room has one; see historyAccess
+  fastify.get<{ Params: { code: string } }>('/api/rooms/:code/history', async (req, reply) => {
+    const ip = clientIp(req.socket.remoteAddress, req.headers['x-forwarded-for'], trusted)
+    if (roomGuesses.locked(ip)) return reply.code(429).send({ code: ErrorCode.RATE_LIMITED, message: 'Too many wrong room codes, try again later' })
+    const room = await store.getRoom(req.params.code.toUpperCase())
+    if (!room) {
+      roomGuesses.miss(ip)
+      return reply.code(404).send({ code: ErrorCode.ROOM_NOT_FOUND, message: 'Room not found' })
+    }
+    const password = req.headers['x-room-password']
+    const refused = await historyAccess(store, room, {
+      token: req.headers.authorization?.match(/^Bearer (\S+)$/)?.[1],
+      password: typeof password === 'string' ? password : undefined,
+    }, Date.now() - TOKEN_TTL_MS)
+    if (refused) {
+      if (refused.code === ErrorCode.WRONG_PASSWORD) roomGuesses.miss(ip)
+      return reply.code(refused.status).send({ code: refused.code, message: refused.message })
+    }
+    return { code: room.code, rounds: room.history ?? [] }
+  })
 
-function dealNumbers(room: Room, players: Player[]): Record<PlayerId, number> {
-  const deck = Array.from({ length: 10 }, (_, i) => i + 1) // 1..10
-  // shuffle
-  for (let i = deck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [deck[i], deck[j]] = [deck[j], deck[i]]
+  // Sockets connected to this node, per room, plus the players in the last room:state we saw
+  type LocalRoom = { sockets: Map<PlayerId, string>, players: Set<PlayerId> }
+  const local = new Map<string, LocalRoom>()
+  const connectedPlayers = () => [...local.values()].reduce((n, room) => n + room.sockets.size, 0)
+
+  function deliver(code: string, out: Emission[]) {
+    const room = local.get(code)
+    // players the game dropped (leave, kick) stop receiving the room's events; sockets still
+    // joining aren't in any state yet and are left alone
+    const state = out.find((e): e is Extract<Emission, { event: 'room:state' }> => e.event === 'room:state')
+    if (room && state) {
+      const present = new Set(state.payload.players.map(p => p.id))
+      for (const [id, sid] of room.sockets) {
+        if (present.has(id) || !room.players.has(id)) continue
+        room.sockets.delete(id)
+        io.sockets.sockets.get(sid)?.leave(code)
+      }
+      room.players = present
+    }
+    for (const e of out) {
+      const target = e.to === 'room' ? code : room?.sockets.get(e.to.player)
+      if (!target) continue
+      // GameRoom pairs each event with its payload type; Socket.IO's overloads can't follow the union
+      ;(io.to(target).emit as (event: string, payload: unknown) => boolean)(e.event, e.payload)
+    }
+    // an expired room is gone: stop routing to it
+    if (room && out.some(e => e.event === 'room:closed')) {
+      for (const sid of room.sockets.values()) io.sockets.sockets.get(sid)?.leave(code)
+      local.delete(code)
+    }
   }
-  const numbers: Record<PlayerId, number> = {}
-  players.forEach((p, i) => { numbers[p.id] = deck[i] })
-  return numbers
-}
-
-async function main() {
-  const fastify = Fastify({ logger: false })
-  const io = new IOServer(fastify.server, { path: '/socket.io', serveClient: false, transports: ['websocket', 'polling'] })
 
-  fastify.get('/health', async () => ({ ok: true }))
+  // With EVENT_LOG_DIR, every accepted input and its emissions are appended per room for `replay`
+  const eventLog = process.env.EVENT_LOG_DIR ? new FileEventLog(process.env.EVENT_LOG_DIR) : undefined
+
+  const metrics = new ServerMetrics({ rooms: () => router.ownedRooms().length, players: connectedPlayers })
+
+  const router = new RoomRouter(nodeId, store, bus, {
+    packs: promptPacks,
+    onEmit: deliver,
+    log: eventLog && ((code, entry) => eventLog.append(code, entry)),
+    idleMs: ROOM_IDLE_MS,
+    observe: (code, event) => {
+      metrics.room(code, event)
+      const { type, ...fields } = event
+      logger.info(`room ${type}`, { room: code, node: nodeId, ...fields })
+    },
+    // a new owner restored the room with everyone disconnected: re-announce the sockets we hold
+    onAdopted: (code) => {
+      for (const [playerId, socketId] of local.get(code)?.sockets ?? []) {
+        router.apply(code, { type: 'connect', playerId, socketId }).catch(err => logger.error('reconnect after adoption failed', err, { room: code }))
+      }
+    },
+  })
+  await router.start()
+  logger.info('node started', { node: nodeId, rooms: router.ownedRooms().length })
+
+  const startedAt = Date.now()
+  fastify.get('/health', async () => ({
+    ok: true,
+    node: nodeId,
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    rooms: { owned: router.ownedRooms().length, total: (await store.roomCodes()).length },
+    players: connectedPlayers(),
+  }))
+
+  // Prometheus scrape target; Apache doesn't proxy it, so it is only reachable on the host
+  fastify.get('/metrics', async (_req, reply) => {
+    reply.type('text/plain; version=0.0.4')
+    return metrics.registry.render()
+  })
 
   io.on('connection', (socket) => {
+    // over the cap: turn the connection away before it holds anything
+    if (io.engine.clientsCount > MAX_SOCKETS) {
+      fail(ErrorCode.SERVER_FULL, 'The server is full, try again later')
+      socket.disconnect(true)
+      return
+    }
     let playerId: string | null = null
     let roomCode: string | null = null
-
-    function getOrIssueToken(token?: string): string {
-      if (token && typeof token === 'string' && token.length >= 8) return token
-      const t = nanoid(21)
-      socket.emit('session:token', { token: t })
-      return t
+    // Clients must pass the protocol version check in session:hello before anything else
+    let helloOk = false
+    // Who room bans apply to: the browser's clientId from session:hello, else just this socket
+    let identity = nanoid(16)
+    const ip = clientIp(socket.handshake.address, socket.handshake.headers['x-forwarded-for'], trusted)
+    const limiter = new SocketLimiter()
+
+    function fail(code: ErrorCode, message: string, details?: PayloadIssue[]) {
+      metrics.errors.inc({ code })
+      socket.emit('error', { code, message, details })
     }
 
-    function emitState() {
-      if (!roomCode) return
-      const room = rooms.get(roomCode)
-      if (!room) return
-      io.to(room.code).emit('room:state', publicRoomState(room))
+    // Quiet events (drag previews) are dropped without an error, so a fast drag doesn't flood the client
+    function reject(event: ClientEvent, message = 'Too many requests') {
+      metrics.rateLimited.inc({ event })
+      if (!eventLimit(event).quiet) fail(ErrorCode.RATE_LIMITED, message)
     }
 
-    socket.on('session:hello', ({ token }: { token?: string } = {}) => {
-      const t = getOrIssueToken(token)
-      const s = sessions.get(t)
-      if (!s) return
-      // expire tokens
-      if (Date.now() - s.issuedAt > TOKEN_TTL_MS) { sessions.delete(t); return }
-      const room = rooms.get(s.roomCode)
-      if (!room) return
-      const p = room.players.find(pp => pp.id === s.playerId)
-      if (!p) return
-      playerId = p.id
-      roomCode = room.code
-      room.sockets.set(p.id, socket.id)
-      socket.join(room.code)
-      p.connected = true
-      emitState()
-      if (room.currentRound && room.currentRound.numbers[p.id] != null) {
-        socket.emit('deal:self', { number: room.currentRound.numbers[p.id] })
+    // Register a handler for a client event; payloads failing their zod schema never reach it
+    function on<E extends ClientEvent>(event: E, handler: (payload: ClientPayload<E>) => void | Promise<void>) {
+      const listener = async (raw: unknown) => {
+        if (!limiter.allow(event)) return reject(event)
+        if (!helloOk && event !== 'session:hello') return fail(ErrorCode.PROTOCOL_MISMATCH, 'This page is out of date. Please refresh.')
+        const parsed = parsePayload(event, raw)
+        if (!parsed.ok) return fail(ErrorCode.INVALID_PAYLOAD, `Invalid payload for ${event}`, parsed.details)
+        try {
+          await handler(parsed.data)
+        } catch (err) {
+          if (err instanceof GameError) fail(err.code, err.message)
+          else logger.error('event failed', err, { event, room: roomCode })
+        }
       }
-    })
+      // the listener takes unknown on purpose: zod, not the type map, decides what reaches the handler
+      socket.on(event, listener as never)
+    }
 
-    socket.on('room:create', ({ displayName, token }: { displayName?: string, token?: string }) => {
-      if (!rateCheck(socket.handshake.address)) return socket.emit('error', { code: 'RATE_LIMITED', message: 'Too many requests' })
-      const t = getOrIssueToken(token)
-      const code = createRoomCode()
-      const player: Player = { id: t, name: String(displayName || 'Host'), seat: 0, connected: true, color: colorForId(t) }
-      const room: Room = {
-        code,
-        hostId: player.id,
-        players: [player],
-        settings: { maxPlayers: 10, scoringEnabled: false, roundTimerSec: 90, profanityFilterEnabled: false },
-        phase: 'lobby',
-  stats: { wins: 0, losses: 0 },
-        sockets: new Map([[player.id, socket.id]]),
-        roundCounter: 0,
-      }
-  rooms.set(code, room)
-  sessions.set(t, { roomCode: code, playerId: player.id, issuedAt: Date.now() })
-      playerId = player.id
+    // Route the room's events to this socket. Done before the owner applies the op, so emissions
+    // it publishes for this player (possibly from another node) can't arrive before we listen.
+    function bind(code: string, id: PlayerId) {
+      playerId = id
       roomCode = code
+      if (!local.has(code)) local.set(code, { sockets: new Map(), players: new Set() })
+      local.get(code)!.sockets.set(id, socket.id)
       socket.join(code)
-      emitState()
-    })
-
-    socket.on('room:join', ({ roomCode: code, displayName, token }: { roomCode: string, displayName?: string, token?: string }) => {
-      if (!rateCheck(socket.handshake.address)) return socket.emit('error', { code: 'RATE_LIMITED', message: 'Too many requests' })
-      const t = getOrIssueToken(token)
-      const room = rooms.get(String(code).toUpperCase())
-      if (!room) return socket.emit('error', { code: 'ROOM_NOT_FOUND', message: 'Room not found' })
-      if (room.players.length >= room.settings.maxPlayers) return socket.emit('error', { code: 'ROOM_FULL', message: 'Room is full' })
-      const seat = seatIndexForNewPlayer(room.players)
-      const desired = String(displayName || 'Player')
-      const unique = ensureUniqueName(room, desired)
-      const player: Player = { id: t, name: unique, seat, connected: true, color: colorForId(t) }
-      room.players.push(player)
-      room.sockets.set(player.id, socket.id)
-      sessions.set(t, { roomCode: room.code, playerId: player.id, issuedAt: Date.now() })
-      playerId = player.id
-      roomCode = room.code
-      socket.join(room.code)
-      emitState()
-    })
-
-    socket.on('settings:update', (patch: Partial<RoomSettings>) => {
-      if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room) return
-      if (playerId !== room.hostId) return socket.emit('error', { code: 'NOT_HOST', message: 'Only host can update settings' })
-      room.settings = { ...room.settings, ...patch }
-      emitState()
-    })
+    }
 
-    socket.on('room:leave', () => {
+    function unbind() {
       if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room) return
-      // remove player
-      const index = room.players.findIndex(p => p.id === playerId)
-      if (index !== -1) {
-        room.players.splice(index, 1)
-      }
-      room.sockets.delete(playerId)
-      socket.leave(room.code)
-      // reassign host if needed
-      if (room.hostId === playerId) {
-        room.hostId = room.players[0]?.id ?? room.hostId
-      }
-      // cleanup empty room
-      if (room.players.length === 0) {
-        rooms.delete(room.code)
-      } else {
-        emitState()
-      }
-      // clear local refs
+      const room = local.get(roomCode)
+      if (room?.sockets.get(playerId) === socket.id) room.sockets.delete(playerId)
+      if (room?.sockets.size === 0) local.delete(roomCode)
+      socket.leave(roomCode)
       playerId = null
       roomCode = null
-    })
+    }
 
-  socket.on('round:start', ({ prompt }: { prompt?: string } = {}) => {
+    // A socket sits in one room at a time: give up the seat it holds before it takes another
+    async function leaveRoom() {
       if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room) return
-      if (playerId !== room.hostId) return socket.emit('error', { code: 'NOT_HOST', message: 'Only host can start round' })
-      const activePlayers = room.players.filter(p => p.connected)
-      if (activePlayers.length < 3) return socket.emit('error', { code: 'NOT_ENOUGH_PLAYERS', message: 'At least 3 players required' })
-      if (activePlayers.length > 10) return socket.emit('error', { code: 'TOO_MANY_PLAYERS', message: 'Max 10 players' })
-
-      const guesserId = chooseGuesser(room)
-      const roundId = `${room.code}-${room.roundCounter + 1}`
-      const chosenPrompt = pickPrompt(prompt)
-      const numbers = dealNumbers(room, activePlayers)
-      const answers: Record<PlayerId, string> = {}
-      activePlayers.forEach(p => answers[p.id] = '')
-      room.currentRound = {
-        id: roundId,
-        index: room.roundCounter,
-        guesserId,
-        prompt: chosenPrompt,
-        numbers,
-        answers,
-        participants: activePlayers.map(p => p.id),
+      const [code, id] = [roomCode, playerId]
+      unbind()
+      try {
+        await router.apply(code, { type: 'leave', playerId: id })
+      } catch (err) {
+        // a room that has since closed took the seat with it
+        if (!(err instanceof GameError && err.code === ErrorCode.ROOM_NOT_FOUND)) throw err
       }
-      room.phase = 'answering'
-      room.roundCounter += 1
+    }
 
-      // notify players of their number privately
-      for (const p of activePlayers) {
-        const sid = room.sockets.get(p.id)
-        if (sid) io.to(sid).emit('deal:self', { number: numbers[p.id] })
-      }
-      // announce round started
-      io.to(room.code).emit('round:started', { roundId, guesserId, prompt: chosenPrompt })
-      // start answering timer if configured
-      const dur = room.settings.roundTimerSec ?? 90
-      const endsAt = Date.now() + dur * 1000
-      room.timers = room.timers || {}
-      room.timers.answeringEndsAt = endsAt
-      if (room.timers.answering) { clearTimeout(room.timers.answering); room.timers.answering = undefined }
-      if (room.timers.answeringTick) { clearInterval(room.timers.answeringTick); room.timers.answeringTick = undefined }
-      room.timers.answering = setTimeout(() => {
-        // auto-advance to guessing if still in answering
-        const r = rooms.get(room.code)
-        if (!r || r.phase !== 'answering' || !r.currentRound) return
-        // count only non-guesser answers
-        const answeredIds = Object.entries(r.currentRound.answers)
-          .filter(([pid, v]) => pid !== r.currentRound!.guesserId && v && v.length > 0)
-          .map(([k]) => k)
-        const required = r.currentRound.participants.length - 1
-        if (answeredIds.length < required) {
-          r.phase = 'guessing'
-          io.to(r.code).emit('guesser:needed', { guesserId: r.currentRound.guesserId })
-          // initialize preview ordering by seat
-          const bySeat = r.players
-            .filter(p => r.currentRound!.participants.includes(p.id))
-            .sort((a,b)=>a.seat-b.seat)
-            .map(p=>p.id)
-          r.currentRound.orderingPreview = bySeat
-          io.to(r.code).emit('ordering:state', { ordering: bySeat })
-          emitState()
-        }
-      }, dur * 1000)
-      room.timers.answeringTick = setInterval(() => {
-        const r = rooms.get(room.code)
-        if (!r || r.phase !== 'answering' || !r.timers?.answeringEndsAt) return
-        io.to(r.code).emit('timer:state', { phase: 'answering', endsAt: r.timers.answeringEndsAt })
-      }, 1000)
-      emitState()
-    })
+    // Hand the bound socket a fresh secret token plus its public id.
+    // Any previously issued token for the seat is revoked (token rotation).
+    async function attach(code: string, id: PlayerId) {
+      await store.revokeSessions(id)
+      const token = nanoid(32)
+      await store.putSession(token, { roomCode: code, playerId: id, issuedAt: Date.now() })
+      socket.emit('session:token', { token })
+      socket.emit('session:self', { playerId: id, roomCode: code })
+      socket.emit('prompt:packs', { packs: summarizePacks(promptPacks) })
+    }
 
-    socket.on('answer:submit', ({ text }: { text: string }) => {
-      if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room || room.phase !== 'answering' || !room.currentRound) return
-      const round = room.currentRound
-      if (!round.participants.includes(playerId)) return
-      // Guesser does not submit an answer
-      if (playerId === round.guesserId) return socket.emit('error', { code: 'GUESSER_NO_ANSWER', message: 'Guesser does not submit an answer' })
-      let cleaned = String(text ?? '').trim().slice(0, 200)
-      if (room.settings.profanityFilterEnabled) cleaned = filterProfanity(cleaned)
-      round.answers[playerId] = cleaned
-      // broadcast answered ids
-      const answeredIds = Object.entries(round.answers)
-        .filter(([pid, v]) => pid !== round.guesserId && v && v.length > 0)
-        .map(([k]) => k)
-      io.to(room.code).emit('answer:state', { answeredIds })
-      // move to guessing when all answered
-      const required = round.participants.length - 1
-      if (answeredIds.length === required) {
-        room.phase = 'guessing'
-        // stop answering timer
-        if (room.timers?.answering) { clearTimeout(room.timers.answering); room.timers.answering = undefined }
-        if (room.timers?.answeringTick) { clearInterval(room.timers.answeringTick); room.timers.answeringTick = undefined }
-        io.to(room.code).emit('guesser:needed', { guesserId: round.guesserId })
-        // initialize preview ordering by seat
-        const bySeat = room.players
-          .filter(p => round.participants.includes(p.id))
-          .sort((a,b)=>a.seat-b.seat)
-          .map(p=>p.id)
-        round.orderingPreview = bySeat
-        io.to(room.code).emit('ordering:state', { ordering: bySeat })
-        emitState()
-      }
-    })
+    // Resolve a resume token to its seat; attach() then rotates it.
+    async function redeem(token?: string | null): Promise<{ roomCode: string, playerId: PlayerId } | null> {
+      if (!token || typeof token !== 'string') return null
+      const s = await store.getSession(token)
+      if (!s) return null
+      // expire tokens
+      if (Date.now() - s.issuedAt > TOKEN_TTL_MS) return null
+      return s
+    }
 
-    socket.on('guesser:order', ({ ordering }: { ordering: PlayerId[] }) => {
-      if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room || room.phase !== 'guessing' || !room.currentRound) return
-      const round = room.currentRound
-      if (playerId !== round.guesserId) return socket.emit('error', { code: 'NOT_GUESSER', message: 'Only guesser can submit ordering' })
-      // validate ordering
-      const setA = new Set(ordering)
-      const setB = new Set(round.participants)
-      if (setA.size !== setB.size || round.participants.some(id => !setA.has(id))) {
-        return socket.emit('error', { code: 'INVALID_ORDERING', message: 'Ordering must include all participants exactly once' })
+    // Reclaim a seat; a room that has since closed just leaves the socket unattached
+    async function resume(code: string, id: PlayerId) {
+      bind(code, id)
+      try {
+        await router.apply(code, { type: 'connect', playerId: id, socketId: socket.id })
+      } catch (err) {
+        unbind()
+        if (err instanceof GameError && err.code === ErrorCode.ROOM_NOT_FOUND) return
+        throw err
       }
-      round.orderingGuess = ordering.slice()
-    // compute true order
-    const trueOrder = [...round.participants].sort((a, b) => round.numbers[a] - round.numbers[b])
-      room.phase = 'reveal'
-  // stop answering timer if still running (safety)
-  if (room.timers?.answering) { clearTimeout(room.timers.answering); room.timers.answering = undefined }
-  if (room.timers?.answeringTick) { clearInterval(room.timers.answeringTick); room.timers.answeringTick = undefined }
-  // compute win and update stats
-  const isWin = round.orderingGuess.length === trueOrder.length && round.orderingGuess.every((id, i) => id === trueOrder[i])
-  if (!room.stats) room.stats = { wins: 0, losses: 0 }
-  if (isWin) room.stats.wins += 1; else room.stats.losses += 1
-  io.to(room.code).emit('round:result', { trueOrder, numbers: round.numbers, submitted: round.orderingGuess, isWin })
-      emitState()
-
-  // update guesser history; stay in reveal until host advances
-  const g = room.players.find(p => p.id === round.guesserId)
-  if (g) g.lastGuessedRound = round.index
-    })
+      await attach(code, id)
+    }
 
-    socket.on('ordering:preview', ({ ordering }: { ordering: PlayerId[] }) => {
-      if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room || room.phase !== 'guessing' || !room.currentRound) return
-      const round = room.currentRound
-      if (playerId !== round.guesserId) return
-      // validate ordering covers all participants
-      const setA = new Set(ordering)
-      const setB = new Set(round.participants)
-      if (setA.size !== setB.size || round.participants.some(id => !setA.has(id))) return
-      round.orderingPreview = ordering.slice()
-      io.to(room.code).emit('ordering:state', { ordering: round.orderingPreview })
+    on('session:hello', async ({ token, protocolVersion, clientId }) => {
+      if (protocolVersion !== PROTOCOL_VERSION) {
+        fail(ErrorCode.PROTOCOL_MISMATCH, 'A new version of the game is available. Please refresh.')
+        socket.disconnect(true)
+        return
+      }
+      helloOk = true
+      if (clientId) identity = clientId
+      const resumed = await redeem(token)
+      if (resumed) await resume(resumed.roomCode, resumed.playerId)
     })
 
-    socket.on('room:shuffleSeats', () => {
-      if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room) return
-      if (playerId !== room.hostId) return socket.emit('error', { code: 'NOT_HOST', message: 'Only host can shuffle seats' })
-      const seats = [...room.players]
-      for (let i = seats.length - 1; i > 0; i--) { const j = Math.floor(Math.random()*(i+1)); [seats[i], seats[j]] = [seats[j], seats[i]] }
-      seats.forEach((p, i) => { p.seat = i })
-      emitState()
+    // Clock sync: the client estimates its offset from the round trip, see TimerStatePayload
+    on('clock:ping', ({ t0 }) => { socket.emit('clock:pong', { t0, serverNow: Date.now() }) })
+
+    on('room:create', async ({ displayName }) => {
+      if (!ipHits.hit(ip)) return reject('room:create')
+      if ((await store.roomCodes()).length >= MAX_ROOMS) return fail(ErrorCode.SERVER_FULL, 'The server is full, try again later')
+      await leaveRoom()
+      const id = nanoid(12)
+      // room codes are short; retry the rare collision with a live room
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const code = createRoomCode()
+        bind(code, id)
+        if (await router.create(code, id, displayName, identity)) return attach(code, id)
+        unbind()
+      }
+      fail(ErrorCode.ROOM_UNAVAILABLE, 'Could not create a room, try again')
     })
 
-    socket.on('round:end', () => {
-      if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room) return
-      if (playerId !== room.hostId) return socket.emit('error', { code: 'NOT_HOST', message: 'Only host can end round' })
-      // stop timers
-      if (room.timers?.answering) { clearTimeout(room.timers.answering); room.timers.answering = undefined }
-      if (room.timers?.answeringTick) { clearInterval(room.timers.answeringTick); room.timers.answeringTick = undefined }
-      room.currentRound = undefined
-      room.phase = 'lobby'
-      emitState()
+    on('room:join', async ({ roomCode: rawCode, displayName, token, spectate, password }) => {
+      if (roomGuesses.locked(ip)) return reject('room:join', 'Too many wrong room codes, try again later')
+      if (!ipHits.hit(ip)) return reject('room:join')
+      const code = rawCode.toUpperCase()
+      // Rejoining with a token for a seat in this room reclaims that seat instead of adding a duplicate
+      const resumed = await redeem(token)
+      if (resumed && resumed.roomCode === code) {
+        if (roomCode !== code || playerId !== resumed.playerId) await leaveRoom()
+        return resume(code, resumed.playerId)
+      }
+      await leaveRoom()
+      const id = nanoid(12)
+      bind(code, id)
+      try {
+        await router.apply(code, { type: 'join', playerId: id, displayName, spectate, identity, password })
+      } catch (err) {
+        unbind()
+        if (err instanceof GameError && (err.code === ErrorCode.ROOM_NOT_FOUND || err.code === ErrorCode.WRONG_PASSWORD)) roomGuesses.miss(ip)
+        throw err
+      }
+      await attach(code, id)
     })
 
-    socket.on('round:next', () => {
-      if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room) return
-      if (playerId !== room.hostId) return socket.emit('error', { code: 'NOT_HOST', message: 'Only host can advance' })
-      // Only advance from reveal
-      if (room.phase !== 'reveal') return
-      room.currentRound = undefined
-      room.phase = 'lobby'
-      emitState()
-    })
+    on('room:leave', leaveRoom)
 
-  socket.on('disconnect', () => {
-      if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room) return
-      const p = room.players.find(p => p.id === playerId)
-      if (p) p.connected = false
-      emitState()
-    })
+    for (const event of COMMAND_EVENTS) {
+      on(event, async (payload) => {
+        if (!roomCode || !playerId) return
+        await router.apply(roomCode, { type: 'command', playerId, command: { type: event, payload } as Command })
+      })
+    }
 
-    socket.on('room:kick', ({ playerId: targetId }: { playerId: string }) => {
+    socket.on('disconnect', () => {
       if (!roomCode || !playerId) return
-      const room = rooms.get(roomCode)
-      if (!room) return
-      if (playerId !== room.hostId) return socket.emit('error', { code: 'NOT_HOST', message: 'Only host can kick' })
-      if (targetId === room.hostId) return socket.emit('error', { code: 'CANNOT_KICK_HOST', message: 'Cannot kick host' })
-      const idx = room.players.findIndex(p => p.id === targetId)
-      if (idx === -1) return
-      const [removed] = room.players.splice(idx, 1)
-      const sid = room.sockets.get(removed.id)
-      if (sid) io.sockets.sockets.get(sid)?.leave(room.code)
-      room.sockets.delete(removed.id)
-      // End round if participants changed mid-round (MVP: return to lobby)
-      if (room.currentRound) { room.currentRound = undefined; room.phase = 'lobby' }
-      emitState()
+      const [code, id] = [roomCode, playerId]
+      unbind()
+      metrics.disconnects.inc()
+      router.apply(code, { type: 'disconnect', playerId: id, socketId: socket.id }).catch(err => {
+        if (!(err instanceof GameError)) logger.error('disconnect failed', err, { room: code })
+      })
     })
   })
 
-  // Periodic cleanup for old sessions and empty rooms
+  // Periodic cleanup for expired sessions and sessions of closed rooms, and stale rate-limit entries
   setInterval(() => {
-    const now = Date.now()
-    for (const [token, s] of sessions) {
-      if (now - s.issuedAt > TOKEN_TTL_MS) sessions.delete(token)
-    }
-    for (const [code, room] of rooms) {
-      if (room.players.length === 0) rooms.delete(code)
-    }
+    store.pruneSessions(Date.now() - TOKEN_TTL_MS).catch(err => logger.error('session cleanup failed', err))
+    ipHits.prune()
+    roomGuesses.prune()
   }, 60_000)
 
+  // systemd stops us with SIGTERM on deploy: hand our rooms back and write a final snapshot before exiting
+  const shutdown = async () => {
+    await router.stop().catch(err => logger.error('releasing rooms failed', err))
+    await memory?.flush()
+    await eventLog?.flush()
+    process.exit(0)
+  }
+  process.once('SIGTERM', shutdown)
+  process.once('SIGINT', shutdown)
+
   const port = Number(process.env.PORT || 8080)
   await fastify.listen({ port, host: '0.0.0.0' })
-  // eslint-disable-next-line no-console
-  console.log(`[realtime] listening on ${port}`)
+  logger.info('listening', { node: nodeId, port })
 }
 
-main().catch(err => { console.error(err); process.exit(1) })
+main().catch(err => { logger.error('startup failed', err); process.exit(1) })
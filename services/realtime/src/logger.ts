@@ -0,0 +1,20 @@
+// Structured logs: one JSON object per line (stdout for info, stderr for warnings and errors),
+// so journald and log shippers can filter on `msg` and the fields without parsing text
+type Level = 'info' | 'warn' | 'error'
+type Fields = Record<string, unknown>
+
+function write(level: Level, msg: string, fields: Fields) {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, msg, ...fields })
+  if (level === 'info') process.stdout.write(`${line}\n`)
+  else process.stderr.write(`${line}\n`)
+}
+
+function describe(err: unknown) {
+  return err instanceof Error ? { name: err.name, message: err.message, stack: err.stack } : { message: String(err) }
+}
+
+export const logger = {
+  info: (msg: string, fields: Fields = {}) => write('info', msg, fields),
+  warn: (msg: string, fields: Fields = {}) => write('warn', msg, fields),
+  error: (msg: string, err?: unknown, fields: Fields = {}) => write('error', msg, err === undefined ? fields : { ...fields, err: describe(err) }),
+}
@@ -0,0 +1,144 @@
+import type { RoomEvent } from './cluster/router.js'
+
+// A minimal Prometheus registry (text exposition format 0.0.4): counters, gauges read at scrape
+// time and histograms, each optionally split by labels
+type Labels = Record<string, string>
+
+const escape = (value: string) => value.replace(/[\\"\n]/g, c => (c === '\n' ? '\\n' : `\\${c}`))
+const labelKey = (labels: Labels) => Object.entries(labels).map(([k, v]) => `${k}="${escape(v)}"`).join(',')
+const series = (name: string, key: string) => (key ? `${name}{${key}}` : name)
+
+interface Metric { render(): string[] }
+
+export class Counter implements Metric {
+  private readonly values = new Map<string, number>()
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1) {
+    const key = labelKey(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + by)
+  }
+
+  get(labels: Labels = {}): number { return this.values.get(labelKey(labels)) ?? 0 }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`]
+    // reported as 0 before the first event, so rates work from the start
+    if (this.values.size === 0) lines.push(`${this.name} 0`)
+    for (const [key, value] of this.values) lines.push(`${series(this.name, key)} ${value}`)
+    return lines
+  }
+}
+
+export class Gauge implements Metric {
+  constructor(readonly name: string, readonly help: string, private readonly read: () => number) {}
+
+  render() {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.read()}`]
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly values = new Map<string, { buckets: number[], sum: number, count: number }>()
+
+  constructor(readonly name: string, readonly help: string, private readonly bounds: number[]) {}
+
+  observe(value: number, labels: Labels = {}) {
+    const key = labelKey(labels)
+    let v = this.values.get(key)
+    if (!v) this.values.set(key, v = { buckets: this.bounds.map(() => 0), sum: 0, count: 0 })
+    this.bounds.forEach((le, i) => { if (value <= le) v!.buckets[i] += 1 })
+    v.sum += value
+    v.count += 1
+  }
+
+  count(labels: Labels = {}): number { return this.values.get(labelKey(labels))?.count ?? 0 }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    for (const [key, v] of this.values) {
+      const le = (bound: string) => `{${key ? `${key},` : ''}le="${bound}"}`
+      this.bounds.forEach((bound, i) => lines.push(`${this.name}_bucket${le(String(bound))} ${v.buckets[i]}`))
+      lines.push(`${this.name}_bucket${le('+Inf')} ${v.count}`)
+      lines.push(`${series(`${this.name}_sum`, key)} ${v.sum}`)
+      lines.push(`${series(`${this.name}_count`, key)} ${v.count}`)
+    }
+    return lines
+  }
+}
+
+export class Registry {
+  private readonly metrics: Metric[] = []
+
+  counter(name: string, help: string) { return this.add(new Counter(name, help)) }
+  gauge(name: string, help: string, read: () => number) { return this.add(new Gauge(name, help, read)) }
+  histogram(name: string, help: string, bounds: number[]) { return this.add(new Histogram(name, help, bounds)) }
+
+  render(): string { return `${this.metrics.flatMap(m => m.render()).join('\n')}\n` }
+
+  private add<M extends Metric>(metric: M): M {
+    this.metrics.push(metric)
+    return metric
+  }
+}
+
+// What this node exposes on /metrics. Counters are per node; sum them across nodes.
+export class ServerMetrics {
+  readonly registry = new Registry()
+  readonly roomsOpened = this.registry.counter('sequencing_rooms_opened_total', 'Rooms created on this node')
+  readonly roomsClosed = this.registry.counter('sequencing_rooms_closed_total', 'Rooms closed after their last player left')
+  readonly roomsExpired = this.registry.counter('sequencing_rooms_expired_total', 'Rooms closed for inactivity')
+  readonly roundsStarted = this.registry.counter('sequencing_rounds_started_total', 'Rounds dealt')
+  readonly roundsCompleted = this.registry.counter('sequencing_rounds_completed_total', 'Rounds that reached the reveal')
+  readonly disconnects = this.registry.counter('sequencing_disconnects_total', 'Seated sockets that disconnected')
+  readonly rateLimited = this.registry.counter('sequencing_rate_limited_total', 'Requests rejected by the rate limit, by event')
+  readonly errors = this.registry.counter('sequencing_errors_total', 'Errors sent to clients, by error code')
+  readonly phaseSeconds = this.registry.histogram('sequencing_phase_duration_seconds', 'Time rooms spent in each phase', [1, 5, 15, 30, 60, 120, 300, 600, 1800])
+  readonly roundSeconds = this.registry.histogram('sequencing_round_duration_seconds', 'Time from dealing to the reveal', [30, 60, 120, 180, 300, 600, 1200])
+  readonly firstRoundSeconds = this.registry.histogram('sequencing_time_to_first_round_seconds', 'Time from creating a room to its first round', [10, 30, 60, 120, 300, 600])
+
+  // rooms waiting for their first round, and rounds in progress: when each began
+  private readonly openedAt = new Map<string, number>()
+  private readonly roundSince = new Map<string, number>()
+
+  constructor(gauges: { rooms: () => number, players: () => number }) {
+    this.registry.gauge('sequencing_rooms_active', 'Rooms owned by this node', gauges.rooms)
+    this.registry.gauge('sequencing_players_connected', 'Player sockets connected to this node', gauges.players)
+  }
+
+  // Feed the router's room events into the room, round and phase metrics
+  room(code: string, event: RoomEvent, at = Date.now()) {
+    switch (event.type) {
+      case 'opened':
+        this.roomsOpened.inc()
+        this.openedAt.set(code, at)
+        break
+      case 'closed':
+      case 'expired':
+        if (event.type === 'closed') this.roomsClosed.inc()
+        else this.roomsExpired.inc()
+        this.openedAt.delete(code)
+        this.roundSince.delete(code)
+        break
+      case 'phase': {
+        this.phaseSeconds.observe(event.ms / 1000, { phase: event.from })
+        // a round is dealt into answering; coming back from a pause is the same round
+        if (event.to === 'answering' && event.from !== 'paused') {
+          this.roundsStarted.inc()
+          this.roundSince.set(code, at)
+          const opened = this.openedAt.get(code)
+          if (opened !== undefined) this.firstRoundSeconds.observe((at - opened) / 1000)
+          this.openedAt.delete(code)
+        }
+        if (event.to === 'reveal') {
+          this.roundsCompleted.inc()
+          const since = this.roundSince.get(code)
+          if (since !== undefined) this.roundSeconds.observe((at - since) / 1000)
+        }
+        if (event.to === 'reveal' || event.to === 'lobby') this.roundSince.delete(code)
+        break
+      }
+    }
+  }
+}
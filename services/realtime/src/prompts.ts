@@ -0,0 +1,131 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { ContentRating, Prompt, PromptPackSummary } from '@sequencing/protocol'
+import type { AnswerTemplates } from './game/bots.js'
+import type { Rng } from './game/types.js'
+
+// botAnswers: per prompt id, canned bot answers keyed by number on a 1..10 scale (server-only)
+export type PromptPack = Omit<PromptPackSummary, 'promptCount'> & { prompts: Prompt[], botAnswers?: Record<string, AnswerTemplates> }
+
+// Per-room bookkeeping for no-repeat selection and the host's upcoming queue
+export type PromptState = {
+  usedPromptIds: string[]
+  promptQueue: Prompt[]
+}
+
+export const DEFAULT_PACK_IDS = ['classic']
+export const UPCOMING_PROMPTS = 3
+
+const RATINGS: ContentRating[] = ['family', 'teen', 'mature']
+
+export const DEFAULT_PACKS_DIR = fileURLToPath(new URL('../packs', import.meta.url))
+
+function str(v: unknown, what: string): string {
+  if (typeof v !== 'string' || v.trim().length === 0) throw new Error(`${what} must be a non-empty string`)
+  return v.trim()
+}
+
+function parsePack(raw: unknown, file: string): PromptPack {
+  const o = (raw ?? {}) as Record<string, unknown>
+  const id = str(o.id, `${file}: id`)
+  const rating = o.rating as ContentRating
+  if (!RATINGS.includes(rating)) throw new Error(`${file}: rating must be one of ${RATINGS.join(', ')}`)
+  if (!Array.isArray(o.prompts) || o.prompts.length === 0) throw new Error(`${file}: prompts must be a non-empty array`)
+  const seen = new Set<string>()
+  const botAnswers: Record<string, AnswerTemplates> = {}
+  const prompts = o.prompts.map((rp: unknown, i: number): Prompt => {
+    const p = (rp ?? {}) as Record<string, unknown>
+    const localId = str(p.id, `${file}: prompts[${i}].id`)
+    if (seen.has(localId)) throw new Error(`${file}: duplicate prompt id ${localId}`)
+    seen.add(localId)
+    if (p.botAnswers !== undefined) botAnswers[`${id}/${localId}`] = parseTemplates(p.botAnswers, `${file}: prompts[${i}].botAnswers`)
+    return {
+      id: `${id}/${localId}`,
+      packId: id,
+      text: str(p.text, `${file}: prompts[${i}].text`),
+      low: str(p.low, `${file}: prompts[${i}].low`),
+      high: str(p.high, `${file}: prompts[${i}].high`),
+    }
+  })
+  return {
+    id,
+    title: str(o.title, `${file}: title`),
+    rating,
+    tags: Array.isArray(o.tags) ? o.tags.filter((t): t is string => typeof t === 'string') : [],
+    prompts,
+    botAnswers,
+  }
+}
+
+function parseTemplates(raw: unknown, what: string): AnswerTemplates {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${what} must be an object keyed by number`)
+  const out: AnswerTemplates = {}
+  for (const [key, text] of Object.entries(raw)) {
+    const n = Number(key)
+    if (!Number.isInteger(n) || n < 1 || n > 10) throw new Error(`${what}: keys must be numbers 1..10`)
+    out[n] = str(text, `${what}.${key}`)
+  }
+  return out
+}
+
+// Load every *.json pack in dir. Malformed packs fail startup rather than silently shrinking the pool.
+export function loadPromptPacks(dir: string = DEFAULT_PACKS_DIR): Map<string, PromptPack> {
+  const packs = new Map<string, PromptPack>()
+  for (const file of readdirSync(dir).filter(f => f.endsWith('.json')).sort()) {
+    const pack = parsePack(JSON.parse(readFileSync(join(dir, file), 'utf8')), file)
+    if (packs.has(pack.id)) throw new Error(`${file}: duplicate pack id ${pack.id}`)
+    packs.set(pack.id, pack)
+  }
+  return packs
+}
+
+export function summarizePacks(packs: Map<string, PromptPack>): PromptPackSummary[] {
+  return [...packs.values()].map(({ prompts, ...rest }) => ({ ...rest, promptCount: prompts.length }))
+}
+
+export function customPrompt(localId: string, text: string, low?: string, high?: string): Prompt {
+  return { id: `custom/${localId}`, packId: 'custom', text: text.trim(), low: low?.trim() || 'Low', high: high?.trim() || 'High' }
+}
+
+function drawOne(state: PromptState, pool: Prompt[], rng: Rng): Prompt | undefined {
+  const queued = new Set(state.promptQueue.map(p => p.id))
+  let candidates = pool.filter(p => !queued.has(p.id) && !state.usedPromptIds.includes(p.id))
+  if (candidates.length === 0) {
+    // every prompt in the selected packs has been used: start a fresh cycle
+    const inPool = new Set(pool.map(p => p.id))
+    state.usedPromptIds = state.usedPromptIds.filter(id => !inPool.has(id))
+    candidates = pool.filter(p => !queued.has(p.id))
+  }
+  if (candidates.length === 0) return undefined
+  return candidates[Math.floor(rng() * candidates.length)]
+}
+
+// Drop queued prompts from packs no longer selected and top the queue back up.
+export function refillQueue(state: PromptState, packs: Map<string, PromptPack>, packIds: string[], rng: Rng = Math.random) {
+  const pool = packIds.flatMap(id => packs.get(id)?.prompts ?? [])
+  state.promptQueue = state.promptQueue.filter(p => packIds.includes(p.packId))
+  while (state.promptQueue.length < UPCOMING_PROMPTS) {
+    const next = drawOne(state, pool, rng)
+    if (!next) break
+    state.promptQueue.push(next)
+  }
+}
+
+// Take the next prompt from the queue, never repeating within a room until the selected packs are exhausted.
+export function nextPrompt(state: PromptState, packs: Map<string, PromptPack>, packIds: string[], rng: Rng = Math.random): Prompt | undefined {
+  refillQueue(state, packs, packIds, rng)
+  const next = state.promptQueue.shift()
+  if (!next) return undefined
+  state.usedPromptIds.push(next.id)
+  refillQueue(state, packs, packIds, rng)
+  return next
+}
+
+// Discard queued prompts (skip one by id, or reroll the whole queue when id is omitted).
+export function skipPrompts(state: PromptState, packs: Map<string, PromptPack>, packIds: string[], promptId?: string, rng: Rng = Math.random) {
+  const skipped = promptId ? state.promptQueue.filter(p => p.id === promptId) : state.promptQueue
+  state.usedPromptIds.push(...skipped.map(p => p.id))
+  state.promptQueue = state.promptQueue.filter(p => !skipped.includes(p))
+  refillQueue(state, packs, packIds, rng)
+}
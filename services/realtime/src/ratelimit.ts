@@ -0,0 +1,130 @@
+import type { ClientEvent } from '@sequencing/protocol'
+
+// Abuse protection for socket traffic: token buckets per socket and event, per-IP windows for
+// opening seats, and a lockout for addresses guessing room codes
+
+export type BucketLimit = {
+  burst: number // tokens available at once
+  perSecond: number // refill rate
+  quiet?: boolean // drop rejected events without telling the client (high-frequency, fire-and-forget)
+}
+
+const DEFAULT_LIMIT: BucketLimit = { burst: 10, perSecond: 2 }
+
+// Tuned to what a person can plausibly do: dragging cards streams previews, everything else is clicks
+export const EVENT_LIMITS: Partial<Record<ClientEvent, BucketLimit>> = {
+  'session:hello': { burst: 5, perSecond: 0.5 },
+  'clock:ping': { burst: 10, perSecond: 1 },
+  'room:create': { burst: 3, perSecond: 0.1 },
+  'room:join': { burst: 5, perSecond: 0.2 },
+  'room:setPassword': { burst: 3, perSecond: 0.2 },
+  'room:addBot': { burst: 5, perSecond: 1 },
+  'prompt:suggest': { burst: 3, perSecond: 0.2 },
+  'prompt:reroll': { burst: 3, perSecond: 0.5 },
+  'answer:submit': { burst: 5, perSecond: 1 },
+  'answer:report': { burst: 5, perSecond: 0.2 },
+  'ordering:preview': { burst: 30, perSecond: 15, quiet: true },
+  'guesser:order': { burst: 10, perSecond: 5 },
+  'history:get': { burst: 3, perSecond: 0.2 },
+}
+
+export function eventLimit(event: ClientEvent): BucketLimit { return EVENT_LIMITS[event] ?? DEFAULT_LIMIT }
+
+export class TokenBucket {
+  private tokens: number
+  private updatedAt: number
+
+  constructor(private readonly limit: BucketLimit, now = Date.now()) {
+    this.tokens = limit.burst
+    this.updatedAt = now
+  }
+
+  take(now = Date.now()): boolean {
+    this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.limit.perSecond)
+    this.updatedAt = now
+    if (this.tokens < 1) return false
+    this.tokens -= 1
+    return true
+  }
+}
+
+// One bucket per event type, created on first use; lives as long as its socket
+export class SocketLimiter {
+  private readonly buckets = new Map<ClientEvent, TokenBucket>()
+
+  allow(event: ClientEvent, now = Date.now()): boolean {
+    let bucket = this.buckets.get(event)
+    if (!bucket) this.buckets.set(event, bucket = new TokenBucket(eventLimit(event), now))
+    return bucket.take(now)
+  }
+}
+
+// Fixed-window counter per key (an IP address), pruned periodically so it doesn't grow forever
+export class WindowLimiter {
+  private readonly hits = new Map<string, { count: number, windowStart: number }>()
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  hit(key: string, now = Date.now()): boolean {
+    const rec = this.hits.get(key)
+    if (!rec || now - rec.windowStart > this.windowMs) {
+      this.hits.set(key, { count: 1, windowStart: now })
+      return true
+    }
+    if (rec.count >= this.limit) return false
+    rec.count += 1
+    return true
+  }
+
+  prune(now = Date.now()) {
+    for (const [key, rec] of this.hits) if (now - rec.windowStart > this.windowMs) this.hits.delete(key)
+  }
+
+  get size() { return this.hits.size }
+}
+
+// After `maxMisses` failed room lookups within `windowMs`, a key is locked out for `lockMs`
+export class Lockout {
+  private readonly misses = new Map<string, { count: number, windowStart: number, lockedUntil?: number }>()
+
+  constructor(private readonly maxMisses: number, private readonly windowMs: number, private readonly lockMs: number) {}
+
+  locked(key: string, now = Date.now()): boolean {
+    const until = this.misses.get(key)?.lockedUntil
+    return until !== undefined && now < until
+  }
+
+  miss(key: string, now = Date.now()) {
+    let rec = this.misses.get(key)
+    if (!rec || now - rec.windowStart > this.windowMs) this.misses.set(key, rec = { count: 0, windowStart: now, lockedUntil: rec?.lockedUntil })
+    rec.count += 1
+    if (rec.count >= this.maxMisses) rec.lockedUntil = now + this.lockMs
+  }
+
+  prune(now = Date.now()) {
+    for (const [key, rec] of this.misses) {
+      if (now - rec.windowStart > this.windowMs && !(rec.lockedUntil !== undefined && now < rec.lockedUntil)) this.misses.delete(key)
+    }
+  }
+
+  get size() { return this.misses.size }
+}
+
+// IPv4 peers show up as ::ffff:1.2.3.4 on dual-stack sockets
+const normalizeIp = (ip: string) => ip.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '')
+
+// The client's address. X-Forwarded-For is only believed when the peer is a trusted proxy; the
+// header is then read right to left, skipping further trusted hops, so a client can't spoof it
+// by sending its own.
+export function clientIp(peer: string | undefined, forwardedFor: string | string[] | undefined, trusted: ReadonlySet<string>): string {
+  let ip = normalizeIp(peer || 'unknown')
+  if (!trusted.has(ip) || !forwardedFor) return ip
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor).split(',').map(normalizeIp).filter(Boolean)
+  while (hops.length > 0 && trusted.has(ip)) ip = hops.pop()!
+  return ip
+}
+
+// TRUST_PROXY is a comma-separated list of proxy addresses; by default only a proxy on this host
+export function trustedProxies(setting: string | undefined): Set<string> {
+  return new Set((setting ?? '127.0.0.1,::1').split(',').map(normalizeIp).filter(Boolean))
+}
@@ -0,0 +1,25 @@
+import { readLog, replay } from './eventlog.js'
+import { loadPromptPacks } from './prompts.js'
+
+// Replays a room's event log (EVENT_LOG_DIR/<code>.jsonl) against the game rules and prints every
+// room:state it produces, one JSON line per state. Exits non-zero if the replay diverges from the log.
+// Needs the prompt packs the room was played with (PROMPT_PACKS_DIR, as for the server).
+async function main() {
+  const file = process.argv[2]
+  if (!file) {
+    console.error('usage: replay <room.jsonl>')
+    process.exit(2)
+  }
+  const steps = replay(await readLog(file), loadPromptPacks(process.env.PROMPT_PACKS_DIR || undefined))
+  for (const { line, at, input, states } of steps) {
+    for (const state of states) console.log(JSON.stringify({ line, at, input, state }))
+  }
+  const diverged = steps.filter(s => s.diverged)
+  if (diverged.length > 0) {
+    console.error(`[replay] ${diverged.length} of ${steps.length} inputs diverged from the log, first at line ${diverged[0].line} (${diverged[0].input})`)
+    process.exit(1)
+  }
+  console.error(`[replay] ${steps.length} inputs reproduced`)
+}
+
+main().catch(err => { console.error(err); process.exit(1) })
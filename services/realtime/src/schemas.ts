@@ -0,0 +1,103 @@
+import { z } from 'zod'
+import type { ClientEvent, ClientPayload, PayloadIssue } from '@sequencing/protocol'
+
+// Documented bounds for host-editable settings; out-of-range numbers are clamped rather than rejected
+export const SETTINGS_BOUNDS = {
+  maxPlayers: { min: 3, max: 20 },
+  roundTimerSec: { min: 10, max: 300 }, // or 0 = no answering timer
+  hostGraceSec: { min: 5, max: 300 },
+  turnTimerSec: { min: 0, max: 120 }, // 0 = no turn timer
+  deckMin: { min: 0, max: 999 },
+  deckMax: { min: 1, max: 1000 }, // kept above deckMin; see GameRoom.updateSettings
+  matchLength: { min: 1, max: 50 },
+}
+
+const clampedInt = ({ min, max }: { min: number, max: number }) =>
+  z.number().finite().transform(v => Math.min(max, Math.max(min, Math.round(v))))
+
+const playerId = z.string().min(1).max(64)
+const ordering = z.array(playerId).min(1).max(64)
+const empty = z.object({}).strip()
+
+type Schemas = { [E in ClientEvent]: z.ZodType<ClientPayload<E>, z.ZodTypeDef, unknown> }
+
+// One schema per client -> server event; the mapped type keeps them in step with @sequencing/protocol
+export const clientSchemas: Schemas = {
+  'session:hello': z.object({
+    token: z.string().max(128).optional(),
+    // missing or malformed versions count as a mismatch rather than an invalid payload
+    protocolVersion: z.number().int().catch(0),
+    clientId: z.string().min(8).max(64).optional(),
+  }),
+  'clock:ping': z.object({ t0: z.number().finite() }),
+  'room:create': z.object({ displayName: z.string().max(40).optional() }),
+  'room:join': z.object({
+    roomCode: z.string().trim().min(1).max(12),
+    displayName: z.string().max(40).optional(),
+    token: z.string().max(128).nullish(),
+    spectate: z.boolean().optional(),
+    password: z.string().max(64).optional(),
+  }),
+  'room:leave': empty,
+  'settings:update': z.object({
+    maxPlayers: clampedInt(SETTINGS_BOUNDS.maxPlayers).optional(),
+    roundTimerSec: z.union([z.literal(0), clampedInt(SETTINGS_BOUNDS.roundTimerSec)]).optional(),
+    hostGraceSec: clampedInt(SETTINGS_BOUNDS.hostGraceSec).optional(),
+    answerMode: z.enum(['simultaneous', 'sequential']).optional(),
+    gameMode: z.enum(['classic', 'party']).optional(),
+    turnTimerSec: clampedInt(SETTINGS_BOUNDS.turnTimerSec).optional(),
+    deckMin: clampedInt(SETTINGS_BOUNDS.deckMin).optional(),
+    deckMax: clampedInt(SETTINGS_BOUNDS.deckMax).optional(),
+    allowTies: z.boolean().optional(),
+    matchMode: z.enum(['open', 'rounds', 'guesses']).optional(),
+    matchLength: clampedInt(SETTINGS_BOUNDS.matchLength).optional(),
+    excludeBotStats: z.boolean().optional(),
+    scoringEnabled: z.boolean().optional(),
+    profanityFilterEnabled: z.boolean().optional(),
+    // stored lower-case and without duplicates
+    blockedWords: z.array(z.string().trim().min(1).max(40)).max(100)
+      .transform(words => [...new Set(words.map(w => w.toLowerCase()))]).optional(),
+    locked: z.boolean().optional(),
+    promptPackIds: z.array(z.string().min(1).max(64)).max(50).optional(),
+  }).strict(),
+  'room:kick': z.object({ playerId }),
+  'room:ban': z.object({ playerId }),
+  'room:unban': z.object({ banId: z.string().min(1).max(64) }),
+  'room:setPassword': z.object({ password: z.string().trim().max(64) }),
+  'room:seatPlayer': z.object({ playerId }),
+  'room:shuffleSeats': empty,
+  'room:transferHost': z.object({ playerId }),
+  'room:addBot': empty,
+  'room:keepAlive': empty,
+  'round:start': z.object({
+    prompt: z.string().max(200).optional(),
+    low: z.string().max(40).optional(),
+    high: z.string().max(40).optional(),
+  }),
+  'prompt:skip': z.object({ promptId: z.string().min(1).max(128) }),
+  'prompt:reroll': empty,
+  'prompt:suggest': z.object({ text: z.string().max(200), low: z.string().max(60), high: z.string().max(60) }),
+  'prompt:withdraw': z.object({ suggestionId: z.string().min(1).max(128) }),
+  'vote:start': empty,
+  'vote:cast': z.object({ suggestionId: z.string().min(1).max(128) }),
+  'answer:submit': z.object({ text: z.string().max(1000) }),
+  'answer:report': z.object({ playerId }),
+  'answer:hide': z.object({ playerId }),
+  'timer:extend': empty,
+  'round:advance': empty,
+  'ordering:preview': z.object({ ordering }),
+  'guesser:order': z.object({ ordering }),
+  'round:reassignGuesser': z.object({ playerId }),
+  'round:end': empty,
+  'round:next': empty,
+  'match:rematch': empty,
+  'history:get': empty,
+}
+
+export function parsePayload<E extends ClientEvent>(event: E, raw: unknown):
+  { ok: true, data: ClientPayload<E> } | { ok: false, details: PayloadIssue[] } {
+  // events without arguments arrive as undefined
+  const result = (clientSchemas[event] as z.ZodType<ClientPayload<E>, z.ZodTypeDef, unknown>).safeParse(raw ?? {})
+  if (result.success) return { ok: true, data: result.data }
+  return { ok: false, details: result.error.issues.map(i => ({ path: i.path.join('.'), message: i.message })) }
+}
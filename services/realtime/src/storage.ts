@@ -0,0 +1,54 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { PlayerId } from '@sequencing/protocol'
+import type { RoomData } from './game/types.js'
+
+export type Session = { roomCode: string, playerId: PlayerId, issuedAt: number }
+
+// Everything needed to bring games back after a restart, hidden round numbers included
+export type Snapshot = {
+  version: 1
+  savedAt: number
+  rooms: RoomData[]
+  sessions: Record<string, Session> // token -> seat
+}
+
+export interface Storage {
+  load(): Promise<Snapshot | undefined>
+  save(snapshot: Snapshot): Promise<void>
+}
+
+// One JSON file in dir, replaced atomically (write to a temp file, then rename)
+export class FileStorage implements Storage {
+  private readonly file: string
+  private pending: Promise<void> = Promise.resolve()
+
+  constructor(private readonly dir: string) {
+    this.file = join(dir, 'snapshot.json')
+  }
+
+  async load(): Promise<Snapshot | undefined> {
+    let raw: string
+    try {
+      raw = await readFile(this.file, 'utf8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+      throw err
+    }
+    const snapshot = JSON.parse(raw) as Snapshot
+    if (snapshot.version !== 1) throw new Error(`${this.file}: unsupported snapshot version ${snapshot.version}`)
+    return snapshot
+  }
+
+  // Saves are serialized so an older snapshot can never overwrite a newer one
+  save(snapshot: Snapshot): Promise<void> {
+    const json = JSON.stringify(snapshot)
+    this.pending = this.pending.catch(() => {}).then(async () => {
+      await mkdir(this.dir, { recursive: true })
+      const tmp = `${this.file}.tmp`
+      await writeFile(tmp, json, 'utf8')
+      await rename(tmp, this.file)
+    })
+    return this.pending
+  }
+}
@@ -0,0 +1,813 @@
+import { describe, expect, it } from 'vitest'
+import { ErrorCode, type PartyScore, type PlayerId } from '@sequencing/protocol'
+import { DISCONNECTED_DROP_SEC, GUESSER_GRACE_SEC, GameRoom, HOST_GRACE_SEC, IDLE_WARNING_SEC, TIMER_EXTEND_SEC } from '../src/game/GameRoom.js'
+import { botAnswer } from '../src/game/bots.js'
+import { type Emission, GameError } from '../src/game/types.js'
+import type { PromptPack } from '../src/prompts.js'
+
+const packs = new Map<string, PromptPack>([
+  ['classic', {
+    id: 'classic', title: 'Classic', rating: 'family', tags: [],
+    prompts: ['a', 'b', 'c', 'd'].map(id => ({ id: `classic/${id}`, packId: 'classic', text: `Prompt ${id}`, low: 'Low', high: 'High' })),
+    botAnswers: { 'classic/a': { 1: 'Barely', 10: 'Totally' } },
+  }],
+])
+
+// Deterministic LCG so shuffles and guesser picks are reproducible
+function seededRng(seed = 1) {
+  let s = seed
+  return () => (s = (s * 1664525 + 1013904223) % 2 ** 32) / 2 ** 32
+}
+
+function setup(players = 4) {
+  const clock = { t: 1_000_000, now() { return this.t } }
+  let n = 0
+  const game = new GameRoom('ROOM42', { packs, clock, rng: seededRng(), newId: () => `p${++n}` })
+  const ids: PlayerId[] = []
+  for (let i = 0; i < players; i++) ids.push(game.join(`Player ${i}`).playerId)
+  return { game, clock, ids, host: ids[0] }
+}
+
+function events(out: Emission[], event: Emission['event']) {
+  return out.filter(e => e.event === event)
+}
+
+function answerAll(game: GameRoom) {
+  const round = game.state.currentRound!
+  for (const id of round.participants) {
+    if (id !== round.guesserId) game.handle(id, { type: 'answer:submit', payload: { text: `answer from ${id}` } })
+  }
+}
+
+// Start a classic round, answer it and have the guesser submit seat order
+function playRound(game: GameRoom, host: PlayerId) {
+  game.handle(host, { type: 'round:start', payload: {} })
+  answerAll(game)
+  const round = game.state.currentRound!
+  game.handle(round.guesserId, { type: 'guesser:order', payload: { ordering: round.participants } })
+  game.handle(host, { type: 'round:next', payload: {} })
+}
+
+function expectGameError(fn: () => unknown, code: ErrorCode) {
+  try {
+    fn()
+  } catch (err) {
+    expect(err).toBeInstanceOf(GameError)
+    expect((err as GameError).code).toBe(code)
+    return
+  }
+  throw new Error(`expected ${code}`)
+}
+
+describe('room lifecycle', () => {
+  it('makes the first player host and seats joiners in order', () => {
+    const { game, ids } = setup(3)
+    expect(game.state.hostId).toBe(ids[0])
+    expect(game.state.players.map(p => [p.role, p.seat])).toEqual([['player', 0], ['player', 1], ['player', 2]])
+  })
+
+  it('broadcasts state on join and keeps names unique', () => {
+    const { game } = setup(1)
+    const { out } = game.join('Player 0')
+    expect(events(out, 'room:state')).toHaveLength(1)
+    expect(game.state.players[1].name).toBe('Player 0 #2')
+  })
+
+  it('passes host on when the host leaves and empties out', () => {
+    const { game, ids } = setup(2)
+    game.leave(ids[0])
+    expect(game.state.hostId).toBe(ids[1])
+    expect(game.leave(ids[1])).toEqual([])
+    expect(game.isEmpty).toBe(true)
+  })
+
+  it('queues mid-round joiners as spectators', () => {
+    const { game, host } = setup(3)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const { playerId } = game.join('Late')
+    expect(game.player(playerId)).toMatchObject({ role: 'spectator', seat: -1, queued: true })
+  })
+
+  it('seats queued spectators only when the next round actually starts', () => {
+    const { game, host } = setup(3)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const { playerId } = game.join('Late')
+    game.handle(host, { type: 'round:end', payload: {} })
+    game.handle(host, { type: 'settings:update', payload: { deckMin: 1, deckMax: 3 } })
+    expectGameError(() => game.handle(host, { type: 'round:start', payload: {} }), ErrorCode.TOO_MANY_PLAYERS)
+    expect(game.player(playerId)).toMatchObject({ role: 'spectator', seat: -1, queued: true })
+
+    game.handle(host, { type: 'settings:update', payload: { deckMax: 4 } })
+    game.handle(host, { type: 'round:start', payload: {} })
+    expect(game.player(playerId)).toMatchObject({ role: 'player', seat: 3 })
+    expect(game.state.currentRound!.participants).toContain(playerId)
+  })
+
+  it('rejects non-host commands', () => {
+    const { game, ids } = setup(3)
+    expectGameError(() => game.handle(ids[1], { type: 'round:start', payload: {} }), ErrorCode.NOT_HOST)
+  })
+})
+
+describe('rounds', () => {
+  it('needs three connected seated players', () => {
+    const { game, host, ids } = setup(3)
+    game.disconnect(ids[2])
+    expectGameError(() => game.handle(host, { type: 'round:start', payload: {} }), ErrorCode.NOT_ENOUGH_PLAYERS)
+  })
+
+  it('deals unique numbers 1..10 privately', () => {
+    const { game, host, ids } = setup(10)
+    const out = game.handle(host, { type: 'round:start', payload: {} })
+    const deals = events(out, 'deal:self')
+    expect(deals.map(e => e.to).sort()).toEqual(ids.map(player => ({ player })).sort())
+    const numbers = deals.map(e => (e.payload as { number: number }).number)
+    expect(new Set(numbers).size).toBe(10)
+    expect([...numbers].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+    // numbers never leak into the broadcast state
+    expect(game.publicState().currentRound!.numbers).toEqual({})
+  })
+
+  it('rotates the guesser until everyone has guessed', () => {
+    const { game, host, ids } = setup(4)
+    const guessers: PlayerId[] = []
+    for (let i = 0; i < ids.length; i++) {
+      game.handle(host, { type: 'round:start', payload: {} })
+      const round = game.state.currentRound!
+      guessers.push(round.guesserId)
+      answerAll(game)
+      game.handle(round.guesserId, { type: 'guesser:order', payload: { ordering: round.participants } })
+      game.handle(host, { type: 'round:next', payload: {} })
+    }
+    expect(new Set(guessers).size).toBe(ids.length)
+    // the next round goes back to whoever guessed longest ago
+    game.handle(host, { type: 'round:start', payload: {} })
+    expect(game.state.currentRound!.guesserId).toBe(guessers[0])
+  })
+
+  it('moves to guessing once every answerer has answered', () => {
+    const { game, host } = setup(3)
+    game.handle(host, { type: 'round:start', payload: {} })
+    answerAll(game)
+    expect(game.state.phase).toBe('guessing')
+    expect(game.nextDeadline()).toBeUndefined()
+  })
+
+  it('advances to guessing when the answering timer expires', () => {
+    const { game, host, clock } = setup(3)
+    const out = game.handle(host, { type: 'round:start', payload: {} })
+    const endsAt = game.nextDeadline()!
+    expect(events(out, 'timer:state')[0].payload).toEqual({ phase: 'answering', endsAt, remainingMs: endsAt - clock.t, durationMs: 90_000, serverNow: clock.t })
+    expect(endsAt).toBe(clock.t + 90_000)
+
+    clock.t = endsAt - 1
+    expect(game.tick()).toEqual([])
+    expect(game.state.phase).toBe('answering')
+
+    clock.t = endsAt
+    const fired = game.tick()
+    expect(game.state.phase).toBe('guessing')
+    expect(events(fired, 'guesser:needed')).toHaveLength(1)
+    expect(events(fired, 'ordering:state')[0].payload).toEqual({ ordering: game.state.currentRound!.participants })
+  })
+
+  it('marks answerers who missed the deadline as timed out', () => {
+    const { game, host, clock } = setup(4)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const round = game.state.currentRound!
+    const [answered, ...missed] = round.participants.filter(id => id !== round.guesserId)
+    game.handle(answered, { type: 'answer:submit', payload: { text: 'in time' } })
+    clock.t = game.nextDeadline()!
+    const out = game.tick()
+    expect(events(out, 'answer:timedOut')[0].payload).toEqual({ playerIds: missed })
+    expect(game.state.currentRound!.timedOut).toEqual(missed)
+  })
+
+  it('lets the host extend the timer or move on early', () => {
+    const { game, host, ids, clock } = setup(3)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const endsAt = game.nextDeadline()!
+    expectGameError(() => game.handle(ids[1], { type: 'timer:extend', payload: {} }), ErrorCode.NOT_HOST)
+    const out = game.handle(host, { type: 'timer:extend', payload: {} })
+    expect(events(out, 'timer:state')[0].payload).toEqual({ phase: 'answering', endsAt: endsAt + TIMER_EXTEND_SEC * 1000, remainingMs: endsAt + TIMER_EXTEND_SEC * 1000 - clock.t, durationMs: (90 + TIMER_EXTEND_SEC) * 1000, serverNow: clock.t })
+    clock.t = endsAt
+    game.tick()
+    expect(game.state.phase).toBe('answering')
+
+    game.handle(host, { type: 'round:advance', payload: {} })
+    expect(game.state.phase).toBe('guessing')
+    expect(game.state.currentRound!.timedOut).toHaveLength(2)
+  })
+
+  it('runs without an answering timer when roundTimerSec is 0', () => {
+    const { game, host } = setup(3)
+    game.handle(host, { type: 'settings:update', payload: { roundTimerSec: 0 } })
+    const out = game.handle(host, { type: 'round:start', payload: {} })
+    expect(events(out, 'timer:state')).toEqual([])
+    expect(game.nextDeadline()).toBeUndefined()
+  })
+
+  it('closes the prompt vote when its timer expires', () => {
+    const { game, host, ids, clock } = setup(3)
+    game.handle(ids[1], { type: 'prompt:suggest', payload: { text: 'How brave am I?', low: 'Coward', high: 'Hero' } })
+    game.handle(host, { type: 'vote:start', payload: {} })
+    const suggestionId = game.state.promptVote.suggestions[0].id
+    game.handle(ids[2], { type: 'vote:cast', payload: { suggestionId } })
+    clock.t = game.nextDeadline()!
+    const out = game.tick()
+    expect(game.state.phase).toBe('lobby')
+    expect(events(out, 'vote:result')[0].payload).toEqual({ winnerId: suggestionId, tally: { [suggestionId]: 1 } })
+    game.handle(host, { type: 'round:start', payload: {} })
+    expect(game.state.currentRound!.prompt.text).toBe('How brave am I?')
+  })
+
+  it('returns to the lobby when a participant is kicked mid-round', () => {
+    const { game, host } = setup(4)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const target = game.state.currentRound!.participants.find(id => id !== host)!
+    game.handle(host, { type: 'room:kick', payload: { playerId: target } })
+    expect(game.player(target)).toBeUndefined()
+    expect(game.state.phase).toBe('lobby')
+    expect(game.state.currentRound).toBeUndefined()
+    expect(game.nextDeadline()).toBeUndefined()
+  })
+
+  it('keeps the round going when a spectator is kicked', () => {
+    const { game, host } = setup(3)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const { playerId } = game.join('Watcher', { spectate: true })
+    game.handle(host, { type: 'room:kick', payload: { playerId } })
+    expect(game.state.phase).toBe('answering')
+  })
+
+  it('reveals the true order, records the result and scores', () => {
+    const { game, host } = setup(4)
+    game.handle(host, { type: 'settings:update', payload: { scoringEnabled: true } })
+    game.handle(host, { type: 'round:start', payload: {} })
+    const round = game.state.currentRound!
+    answerAll(game)
+    const trueOrder = [...round.participants].sort((a, b) => round.numbers[a] - round.numbers[b])
+    const out = game.handle(round.guesserId, { type: 'guesser:order', payload: { ordering: trueOrder } })
+
+    expect(game.state.phase).toBe('reveal')
+    expect(events(out, 'round:result')[0].payload).toMatchObject({ trueOrder, submitted: trueOrder, isWin: true })
+    expect(game.state.stats).toEqual({ wins: 1, losses: 0 })
+    const guesser = game.player(round.guesserId)!
+    expect(guesser.lastGuessedRound).toBe(0)
+    expect(guesser.score).toBe(8) // 4 correct + 4 perfect bonus
+    // answers become visible once guessing starts
+    expect(Object.keys(game.publicState().currentRound!.answers)).toHaveLength(4)
+  })
+
+  it('rejects orderings that do not cover every participant', () => {
+    const { game, host } = setup(3)
+    game.handle(host, { type: 'round:start', payload: {} })
+    answerAll(game)
+    const round = game.state.currentRound!
+    expectGameError(
+      () => game.handle(round.guesserId, { type: 'guesser:order', payload: { ordering: round.participants.slice(1) } }),
+      ErrorCode.INVALID_ORDERING,
+    )
+    expect(game.state.phase).toBe('guessing')
+  })
+})
+
+describe('sequential answering', () => {
+  function sequential(players = 4, turnTimerSec = 0) {
+    const ctx = setup(players)
+    ctx.game.handle(ctx.host, { type: 'settings:update', payload: { answerMode: 'sequential', turnTimerSec } })
+    ctx.game.handle(ctx.host, { type: 'round:start', payload: {} })
+    return { ...ctx, round: ctx.game.state.currentRound! }
+  }
+
+  it('takes answers clockwise from the guesser\'s left and shows each one straight away', () => {
+    const { game, round } = sequential()
+    const seats = game.state.players.map(p => p.id)
+    const g = seats.indexOf(round.guesserId)
+    expect(round.turnOrder).toEqual([1, 2, 3].map(i => seats[(g + i) % 4]))
+    expect(game.nextDeadline()).toBeUndefined()
+
+    const [first, second] = round.turnOrder!
+    expect(round.currentAnswererId).toBe(first)
+    expectGameError(() => game.handle(second, { type: 'answer:submit', payload: { text: 'too soon' } }), ErrorCode.NOT_YOUR_TURN)
+    game.handle(first, { type: 'answer:submit', payload: { text: 'mine' } })
+    expect(game.publicState().currentRound).toMatchObject({ currentAnswererId: second, answers: { [first]: 'mine' } })
+    expectGameError(() => game.handle(first, { type: 'answer:submit', payload: { text: 'again' } }), ErrorCode.NOT_YOUR_TURN)
+  })
+
+  it('moves to guessing after the last turn', () => {
+    const { game, round } = sequential()
+    for (const id of round.turnOrder!) game.handle(id, { type: 'answer:submit', payload: { text: `answer from ${id}` } })
+    expect(game.state.phase).toBe('guessing')
+    expect(game.state.currentRound!.currentAnswererId).toBeUndefined()
+  })
+
+  it('skips an answerer whose turn times out or who disconnects', () => {
+    const { game, round, clock } = sequential(4, 20)
+    const [first, second, third] = round.turnOrder!
+    expect(game.nextDeadline()).toBe(clock.t + 20_000)
+    clock.t += 20_000
+    const out = game.tick()
+    expect(game.state.currentRound!.currentAnswererId).toBe(second)
+    expect(events(out, 'timer:state')[0].payload).toEqual({ phase: 'answering', endsAt: clock.t + 20_000, remainingMs: 20_000, durationMs: 20_000, serverNow: clock.t })
+    game.disconnect(second)
+    expect(game.state.currentRound!.currentAnswererId).toBe(third)
+    game.handle(third, { type: 'answer:submit', payload: { text: 'last' } })
+    expect(game.state.phase).toBe('guessing')
+    expect(game.state.currentRound!.answers[first]).toBe('')
+  })
+})
+
+describe('party mode', () => {
+  function party(players = 4) {
+    const ctx = setup(players)
+    ctx.game.handle(ctx.host, { type: 'settings:update', payload: { gameMode: 'party' } })
+    ctx.game.handle(ctx.host, { type: 'round:start', payload: {} })
+    answerAll(ctx.game)
+    return { ...ctx, round: ctx.game.state.currentRound! }
+  }
+
+  it('has everyone answer and then order everyone else', () => {
+    const { game, ids, round } = party()
+    expect(round).toMatchObject({ mode: 'party', guesserId: '' })
+    expect(game.state.phase).toBe('guessing')
+    expectGameError(
+      () => game.handle(ids[0], { type: 'guesser:order', payload: { ordering: round.participants } }),
+      ErrorCode.INVALID_ORDERING,
+    )
+    game.handle(ids[0], { type: 'guesser:order', payload: { ordering: ids.slice(1) } })
+    expect(game.publicState().currentRound).toMatchObject({ orderedIds: [ids[0]], orderings: undefined })
+  })
+
+  it('scores every ordering against the true order once the last one is in', () => {
+    const { game, ids, round } = party()
+    const trueOrder = [...round.participants].sort((a, b) => round.numbers[a] - round.numbers[b])
+    let out: Emission[] = []
+    for (const id of ids) {
+      const truth = trueOrder.filter(o => o !== id)
+      // ids[0] reads the table perfectly, everyone else gets it backwards
+      out = game.handle(id, { type: 'guesser:order', payload: { ordering: id === ids[0] ? truth : truth.reverse() } })
+    }
+    expect(game.state.phase).toBe('reveal')
+    const scores = (events(out, 'round:result')[0].payload as { party: PartyScore[] }).party
+    expect(scores[0]).toMatchObject({ playerId: ids[0], exact: 3, kendallTau: 0, points: 6 })
+    expect(scores.slice(1).every(sc => sc.kendallTau === 3 && sc.exact === 1)).toBe(true)
+  })
+
+  it('lets the host reveal without waiting for everyone', () => {
+    const { game, host, ids } = party()
+    game.handle(ids[1], { type: 'guesser:order', payload: { ordering: ids.filter(id => id !== ids[1]) } })
+    game.handle(host, { type: 'round:advance', payload: {} })
+    expect(game.state.phase).toBe('reveal')
+    expect(game.state.currentRound!.partyScores!.map(sc => sc.playerId)).toEqual([ids[1]])
+  })
+})
+
+describe('host migration', () => {
+  it('hands the role to the longest-connected player after the grace period', () => {
+    const { game, host, ids, clock } = setup(3)
+    game.disconnect(ids[1])
+    clock.t += 1_000
+    game.connect(ids[1]) // ids[2] has now been connected longer
+    game.disconnect(host)
+    expect(game.nextDeadline()).toBe(clock.t + HOST_GRACE_SEC * 1000)
+
+    clock.t = game.nextDeadline()! - 1
+    expect(game.tick()).toEqual([])
+    clock.t += 1
+    const out = game.tick()
+    expect(game.state.hostId).toBe(ids[2])
+    expect(events(out, 'host:changed')[0].payload).toEqual({ hostId: ids[2], previousHostId: host, reason: 'disconnected' })
+    expect(events(out, 'prompt:queue')[0].to).toEqual({ player: ids[2] })
+  })
+
+  it('keeps the role for a host who comes back in time', () => {
+    const { game, host, clock } = setup(3)
+    game.handle(host, { type: 'settings:update', payload: { hostGraceSec: 10 } })
+    game.disconnect(host)
+    clock.t += 5_000
+    game.connect(host)
+    expect(game.nextDeadline()).toBeUndefined()
+    clock.t += 60_000
+    game.tick()
+    expect(game.state.hostId).toBe(host)
+  })
+
+  it('lets the host transfer the role to a connected player', () => {
+    const { game, host, ids } = setup(3)
+    expectGameError(() => game.handle(ids[1], { type: 'room:transferHost', payload: { playerId: ids[1] } }), ErrorCode.NOT_HOST)
+    game.disconnect(ids[2])
+    expectGameError(() => game.handle(host, { type: 'room:transferHost', payload: { playerId: ids[2] } }), ErrorCode.NOT_PLAYER)
+    const out = game.handle(host, { type: 'room:transferHost', payload: { playerId: ids[1] } })
+    expect(game.state.hostId).toBe(ids[1])
+    expect(events(out, 'host:changed')[0].payload).toEqual({ hostId: ids[1], previousHostId: host, reason: 'transferred' })
+  })
+})
+
+describe('guesser disconnects', () => {
+  it('pauses the answering timer and resumes with the time that was left', () => {
+    const { game, host, clock } = setup(4)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const { guesserId } = game.state.currentRound!
+    clock.t += 30_000
+    const out = game.disconnect(guesserId)
+    expect(game.state.phase).toBe('paused')
+    expect(game.state.pause).toMatchObject({ guesserId, resumePhase: 'answering', expired: false, remainingMs: 60_000 })
+    expect(events(out, 'timer:state')[0].payload).toEqual({ phase: 'paused', endsAt: clock.t + GUESSER_GRACE_SEC * 1000, remainingMs: GUESSER_GRACE_SEC * 1000, durationMs: GUESSER_GRACE_SEC * 1000, serverNow: clock.t })
+    expect(game.nextDeadline()).toBe(game.state.pause!.graceEndsAt)
+
+    clock.t += 20_000
+    const resumed = game.connect(guesserId)
+    expect(game.state.phase).toBe('answering')
+    expect(game.state.pause).toBeUndefined()
+    // the bar picks up two thirds full: 60s left of the round's 90
+    expect(events(resumed, 'timer:state')[0]).toEqual({ to: 'room', event: 'timer:state', payload: { phase: 'answering', endsAt: clock.t + 60_000, remainingMs: 60_000, durationMs: 90_000, serverNow: clock.t } })
+  })
+
+  it('lets the host reassign the guesser once the grace period is over', () => {
+    const { game, host, ids, clock } = setup(4)
+    game.handle(host, { type: 'round:start', payload: {} })
+    answerAll(game)
+    const { guesserId } = game.state.currentRound!
+    const next = ids.find(id => id !== guesserId && id !== host)!
+    game.disconnect(guesserId)
+    expectGameError(() => game.handle(host, { type: 'round:reassignGuesser', payload: { playerId: next } }), ErrorCode.GRACE_PERIOD)
+
+    clock.t = game.nextDeadline()!
+    game.tick()
+    expect(game.state.pause!.expired).toBe(true)
+    expect(game.nextDeadline()).toBeUndefined()
+    expectGameError(() => game.handle(host, { type: 'round:reassignGuesser', payload: { playerId: guesserId } }), ErrorCode.NOT_PLAYER)
+
+    const out = game.handle(host, { type: 'round:reassignGuesser', payload: { playerId: next } })
+    expect(game.state.phase).toBe('guessing')
+    expect(events(out, 'guesser:needed')[0].payload).toEqual({ guesserId: next })
+    game.handle(next, { type: 'guesser:order', payload: { ordering: game.state.currentRound!.participants } })
+    expect(game.state.phase).toBe('reveal')
+  })
+
+  it('won\'t start another round over a paused one', () => {
+    const { game, host } = setup(4)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const { id, guesserId } = game.state.currentRound!
+    game.disconnect(guesserId)
+    expectGameError(() => game.handle(host, { type: 'round:start', payload: {} }), ErrorCode.ROUND_IN_PROGRESS)
+    expect(game.state.phase).toBe('paused')
+    expect(game.state.currentRound!.id).toBe(id)
+    expect(game.state.pause).toMatchObject({ guesserId })
+  })
+
+  it('lets the host abandon a paused round', () => {
+    const { game, host } = setup(4)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const { guesserId } = game.state.currentRound!
+    // a guesser who leaves outright skips the grace period
+    game.leave(guesserId)
+    expect(game.state.pause).toMatchObject({ guesserId, expired: true })
+    game.handle(game.state.hostId, { type: 'round:end', payload: {} })
+    expect(game.state.phase).toBe('lobby')
+    expect(game.state.pause).toBeUndefined()
+  })
+})
+
+describe('number deck', () => {
+  it('deals unique numbers from a custom range to more than ten players', () => {
+    const { game, host } = setup(1)
+    game.handle(host, { type: 'settings:update', payload: { maxPlayers: 12, deckMin: 1, deckMax: 100 } })
+    for (let i = 1; i < 12; i++) game.join(`Player ${i}`)
+    const numbers = events(game.handle(host, { type: 'round:start', payload: {} }), 'deal:self').map(e => (e.payload as { number: number }).number)
+    expect(numbers).toHaveLength(12)
+    expect(new Set(numbers).size).toBe(12)
+    expect(numbers.every(n => n >= 1 && n <= 100)).toBe(true)
+  })
+
+  it('needs a number per player unless ties are allowed, and keeps the range non-empty', () => {
+    const { game, host } = setup(4)
+    game.handle(host, { type: 'settings:update', payload: { deckMin: 5, deckMax: 7 } })
+    expectGameError(() => game.handle(host, { type: 'round:start', payload: {} }), ErrorCode.TOO_MANY_PLAYERS)
+    game.handle(host, { type: 'settings:update', payload: { deckMax: 3 } })
+    expect(game.state.settings).toMatchObject({ deckMin: 2, deckMax: 3 })
+    game.handle(host, { type: 'settings:update', payload: { allowTies: true } })
+    game.handle(host, { type: 'round:start', payload: {} })
+    expect(Object.values(game.state.currentRound!.numbers).every(n => n === 2 || n === 3)).toBe(true)
+  })
+
+  it('accepts tied players in either order', () => {
+    const { game, host } = setup(4)
+    game.handle(host, { type: 'settings:update', payload: { deckMin: 1, deckMax: 2, allowTies: true, scoringEnabled: true } })
+    game.handle(host, { type: 'round:start', payload: {} })
+    answerAll(game)
+    const round = game.state.currentRound!
+    // four players, two numbers: at least one tie, placed the opposite way to the server's true order
+    const trueOrder = [...round.participants].sort((a, b) => round.numbers[a] - round.numbers[b])
+    const ordering = [...trueOrder].reverse().sort((a, b) => round.numbers[a] - round.numbers[b])
+    expect(ordering).not.toEqual(trueOrder)
+    const out = game.handle(round.guesserId, { type: 'guesser:order', payload: { ordering } })
+    expect(events(out, 'round:result')[0].payload).toMatchObject({ isWin: true, scores: { guesser: { correct: 4, perfectBonus: 4 } } })
+    expect(game.state.stats).toEqual({ wins: 1, losses: 0 })
+  })
+})
+
+describe('matches', () => {
+  it('ends after the configured number of rounds with a summary', () => {
+    const { game, host } = setup(3)
+    game.handle(host, { type: 'settings:update', payload: { matchMode: 'rounds', matchLength: 2 } })
+    playRound(game, host)
+    expect(game.state.match).toMatchObject({ finished: false, rounds: [{ index: 0 }] })
+    playRound(game, host)
+    const match = game.publicState().match!
+    expect(match.finished).toBe(true)
+    expect(match.rounds).toHaveLength(2)
+    expect(match.rounds[1]).toMatchObject({ index: 1, prompt: { text: expect.any(String) }, submitted: expect.any(Array), trueOrder: expect.any(Array) })
+    expect(Object.keys(match.rounds[1].answers)).toHaveLength(3)
+    const reads = match.rounds.flatMap(r => r.reads)
+    expect(reads.map(r => r.kendallTau)).toContain(match.best!.kendallTau)
+    expect(match.best!.kendallTau).toBeLessThanOrEqual(match.worst!.kendallTau)
+    expectGameError(() => game.handle(host, { type: 'round:start', payload: {} }), ErrorCode.MATCH_OVER)
+  })
+
+  it('can run until everyone has guessed a number of times', () => {
+    const { game, host, ids } = setup(3)
+    game.handle(host, { type: 'settings:update', payload: { matchMode: 'guesses', matchLength: 1 } })
+    playRound(game, host)
+    playRound(game, host)
+    expect(game.state.match!.finished).toBe(false)
+    playRound(game, host)
+    expect(game.state.match!.finished).toBe(true)
+    expect(ids.map(id => game.state.match!.guesses[id])).toEqual([1, 1, 1])
+  })
+
+  it('resets round numbers, stats and scores on rematch', () => {
+    const { game, host } = setup(3)
+    game.handle(host, { type: 'settings:update', payload: { matchMode: 'rounds', matchLength: 1, scoringEnabled: true } })
+    playRound(game, host)
+    expect(game.state.match!.finished).toBe(true)
+    game.handle(host, { type: 'match:rematch', payload: {} })
+    expect(game.state).toMatchObject({ phase: 'lobby', roundCounter: 0, stats: { wins: 0, losses: 0 } })
+    expect(game.state.match).toBeUndefined()
+    expect(game.state.players.every(p => p.score === 0 && p.lastGuessedRound === undefined)).toBe(true)
+    game.handle(host, { type: 'round:start', payload: {} })
+    expect(game.state.currentRound!.index).toBe(0)
+  })
+})
+
+describe('round history', () => {
+  it('keeps revealed rounds after the table moves on and sends them to whoever asks', () => {
+    const { game, host, ids } = setup(3)
+    playRound(game, host)
+    // abandoned rounds are not history
+    game.handle(host, { type: 'round:start', payload: {} })
+    game.handle(host, { type: 'round:end', payload: {} })
+    playRound(game, host)
+    expect(game.state.currentRound).toBeUndefined()
+
+    const out = game.handle(ids[2], { type: 'history:get', payload: {} })
+    expect(out).toHaveLength(1)
+    expect(out[0]).toMatchObject({ to: { player: ids[2] }, event: 'room:history' })
+    const { rounds } = (out[0].payload as { rounds: typeof game.state.history })
+    expect(rounds.map(r => r.index)).toEqual([0, 2])
+    expect(rounds[0]).toMatchObject({ prompt: { text: expect.any(String) }, isWin: expect.any(Boolean), submitted: expect.any(Array) })
+    expect(Object.keys(rounds[0].numbers)).toHaveLength(3)
+    expect(Object.values(rounds[0].answers).filter(Boolean)).toHaveLength(2)
+  })
+
+  it('is not part of the broadcast state and survives a restore', () => {
+    const { game, host, clock } = setup(3)
+    playRound(game, host)
+    expect(game.publicState()).not.toHaveProperty('history')
+    const restored = GameRoom.restore(JSON.parse(JSON.stringify(game.state)), { packs, clock })
+    expect(restored.state.history).toHaveLength(1)
+    const older = JSON.parse(JSON.stringify(game.state))
+    delete older.history
+    expect(GameRoom.restore(older, { packs, clock }).state.history).toEqual([])
+  })
+})
+
+describe('bots', () => {
+  function withBots(bots: number) {
+    const ctx = setup(1)
+    for (let i = 0; i < bots; i++) ctx.game.handle(ctx.host, { type: 'room:addBot', payload: {} })
+    const botIds = ctx.game.state.players.filter(p => p.bot).map(p => p.id)
+    return { ...ctx, botIds }
+  }
+
+  it('seats bots that answer from their templates before the timer', () => {
+    const { game, host, clock, botIds } = withBots(2)
+    expect(game.state.players.map(p => [p.name, p.role, !!p.bot])).toEqual([['Player 0', 'player', false], ['Robo', 'player', true], ['Beep', 'player', true]])
+    game.handle(host, { type: 'round:start', payload: {} })
+    const round = game.state.currentRound!
+    if (round.guesserId !== host) game.handle(host, { type: 'answer:submit', payload: { text: 'mine' } })
+    expect(game.nextDeadline()).toBeLessThanOrEqual(clock.t + 6000)
+    clock.t += 6000
+    game.tick()
+    const templates = packs.get('classic')!.botAnswers![round.prompt.id]
+    for (const id of botIds.filter(id => id !== round.guesserId)) {
+      expect(round.answers[id]).toBe(botAnswer(round.prompt, round.numbers[id], { min: 1, max: 10 }, templates))
+    }
+    expect(game.state.phase).toBe('guessing')
+  })
+
+  it('guesses as a bot, optionally left out of the stats', () => {
+    const { game, host, clock } = withBots(2)
+    game.handle(host, { type: 'settings:update', payload: { excludeBotStats: true } })
+    // the host has guessed before, so a bot is picked
+    game.player(host)!.lastGuessedRound = 0
+    game.handle(host, { type: 'round:start', payload: {} })
+    expect(game.player(game.state.currentRound!.guesserId)!.bot).toBe(true)
+    game.handle(host, { type: 'answer:submit', payload: { text: 'mine' } })
+    const results: Emission[] = []
+    for (let i = 0; i < 4 && game.state.phase !== 'reveal'; i++) {
+      clock.t = game.nextDeadline()!
+      results.push(...events(game.tick(), 'round:result'))
+    }
+    expect(game.state.phase).toBe('reveal')
+    expect(results).toHaveLength(1)
+    expect(game.state.stats).toEqual({ wins: 0, losses: 0 })
+  })
+
+  it('closes the prompt vote once the humans have voted', () => {
+    const { game, host } = withBots(1)
+    const { playerId } = game.join('Late')
+    game.handle(playerId, { type: 'prompt:suggest', payload: { text: 'How brave am I?', low: 'Coward', high: 'Hero' } })
+    game.handle(host, { type: 'vote:start', payload: {} })
+    const suggestionId = game.state.promptVote.suggestions[0].id
+    game.handle(host, { type: 'vote:cast', payload: { suggestionId } })
+    expect(game.state.phase).toBe('promptVoting')
+    const out = game.handle(playerId, { type: 'vote:cast', payload: { suggestionId } })
+    expect(game.state.phase).toBe('lobby')
+    expect(events(out, 'vote:result')[0].payload).toEqual({ winnerId: suggestionId, tally: { [suggestionId]: 2 } })
+  })
+
+  it('never makes a bot host and closes the room when only bots are left', () => {
+    const { game, host, botIds } = withBots(1)
+    expectGameError(() => game.handle(host, { type: 'room:transferHost', payload: { playerId: botIds[0] } }), ErrorCode.NOT_PLAYER)
+    const { playerId } = game.join('Late')
+    game.leave(host)
+    expect(game.state.hostId).toBe(playerId)
+    game.leave(playerId)
+    expect(game.isEmpty).toBe(true)
+  })
+})
+
+describe('moderation', () => {
+  it('bans a browser from rejoining under any name until the host lifts it', () => {
+    const { game, host } = setup(1)
+    const troll = game.join('Troll', { identity: 'browser-1' }).playerId
+    game.handle(host, { type: 'room:kick', payload: { playerId: troll } })
+    // a kick alone doesn't stop them coming back
+    const again = game.join('Troll', { identity: 'browser-1' }).playerId
+    game.handle(host, { type: 'room:ban', payload: { playerId: again } })
+    expect(game.player(again)).toBeUndefined()
+    expect(game.publicState().bans).toEqual([{ id: expect.any(String), name: 'Troll' }])
+    expect(JSON.stringify(game.publicState())).not.toContain('browser-1')
+    expectGameError(() => game.join('Nice person', { identity: 'browser-1' }), ErrorCode.BANNED)
+    game.handle(host, { type: 'room:unban', payload: { banId: game.publicState().bans![0].id } })
+    expect(game.join('Nice person', { identity: 'browser-1' }).playerId).toBeDefined()
+  })
+
+  it('keeps newcomers out of a locked or password-protected room', () => {
+    const { game, host } = setup(2)
+    game.handle(host, { type: 'settings:update', payload: { locked: true } })
+    expectGameError(() => game.join('Late', { spectate: true }), ErrorCode.ROOM_LOCKED)
+    game.handle(host, { type: 'settings:update', payload: { locked: false } })
+    game.handle(host, { type: 'room:setPassword', payload: { password: 'tacos' } })
+    expect(game.publicState().passwordProtected).toBe(true)
+    expect(JSON.stringify(game.publicState())).not.toContain('tacos')
+    expectGameError(() => game.join('Late'), ErrorCode.PASSWORD_REQUIRED)
+    expectGameError(() => game.join('Late', { password: 'nachos' }), ErrorCode.WRONG_PASSWORD)
+    expect(game.join('Late', { password: 'tacos' }).playerId).toBeDefined()
+    game.handle(host, { type: 'room:setPassword', payload: { password: '' } })
+    expect(game.publicState().passwordProtected).toBeUndefined()
+  })
+
+  it('masks blocked words in names and answers and lets the host hide a reported answer', () => {
+    const { game, host, ids } = setup(3)
+    game.handle(host, { type: 'settings:update', payload: { blockedWords: ['pineapple'] } })
+    const { playerId: fan } = game.join('Pineapple fan')
+    expect(game.player(fan)!.name).toBe('********* fan')
+    game.leave(fan)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const round = game.state.currentRound!
+    const [author, other] = round.participants.filter(id => id !== round.guesserId)
+    game.handle(author, { type: 'answer:submit', payload: { text: 'Pineapple on pizza' } })
+    game.handle(other, { type: 'answer:submit', payload: { text: 'fine' } })
+    expect(round.answers[author]).toBe('********* on pizza')
+
+    game.handle(other, { type: 'answer:report', payload: { playerId: author } })
+    expect(game.publicState().currentRound!.reported).toEqual([author])
+    expectGameError(() => game.handle(ids[1], { type: 'answer:hide', payload: { playerId: author } }), ErrorCode.NOT_HOST)
+    game.handle(host, { type: 'answer:hide', payload: { playerId: author } })
+    expect(game.publicState().currentRound!.answers).not.toHaveProperty(author)
+    expect(game.publicState().currentRound!.answers[other]).toBe('fine')
+    game.handle(round.guesserId, { type: 'guesser:order', payload: { ordering: round.participants } })
+    expect(game.state.history[0].answers).not.toHaveProperty(author)
+  })
+
+  it('hides an answer only in its own round after a rematch', () => {
+    const { game, host } = setup(3)
+    playRound(game, host)
+    const first = game.state.history[0]
+    game.handle(host, { type: 'match:rematch', payload: {} })
+    game.handle(host, { type: 'round:start', payload: {} })
+    answerAll(game)
+    const round = game.state.currentRound!
+    // round numbers start over, ids don't
+    expect(round.index).toBe(first.index)
+    expect(round.id).not.toBe(first.id)
+    game.handle(round.guesserId, { type: 'guesser:order', payload: { ordering: round.participants } })
+    const author = round.participants.find(id => id !== round.guesserId && id !== first.guesserId)!
+    game.handle(host, { type: 'answer:hide', payload: { playerId: author } })
+    expect(game.state.history[1].answers).not.toHaveProperty(author)
+    expect(game.state.history[0].answers[author]).toBe(`answer from ${author}`)
+  })
+})
+
+describe('idle rooms', () => {
+  it('warns before closing an idle room, and any action keeps it open', () => {
+    const clock = { t: 1_000_000, now() { return this.t } }
+    const game = new GameRoom('ROOM42', { packs, clock, idleMs: 10 * 60_000 })
+    const { playerId: host } = game.join('Host')
+    expect(game.nextDeadline()).toBe(clock.t + 10 * 60_000 - IDLE_WARNING_SEC * 1000)
+    clock.t = game.nextDeadline()!
+    expect(events(game.tick(), 'room:state')[0].payload).toMatchObject({ closingAt: 1_000_000 + 10 * 60_000 })
+    const out = game.handle(host, { type: 'room:keepAlive', payload: {} })
+    expect(events(out, 'room:state')[0].payload).toMatchObject({ closingAt: undefined })
+    clock.t += 10 * 60_000
+    expect(game.isExpired).toBe(true)
+    expect(game.tick()).toEqual([{ to: 'room', event: 'room:closed', payload: { reason: 'idle' } }])
+  })
+
+  it('drops long-disconnected players at the next break, not mid-round', () => {
+    const { game, clock, host } = setup(4)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const round = game.state.currentRound!
+    const gone = round.participants.find(id => id !== host && id !== round.guesserId)!
+    game.disconnect(gone)
+    clock.t += DISCONNECTED_DROP_SEC * 1000
+    game.tick()
+    expect(game.player(gone)).toBeDefined()
+    game.handle(host, { type: 'round:end', payload: {} })
+    expect(game.nextDeadline()).toBeLessThanOrEqual(clock.t)
+    game.tick()
+    expect(game.player(gone)).toBeUndefined()
+    expect(game.state.players).toHaveLength(3)
+  })
+})
+
+describe('restore', () => {
+  it('brings back a round with the same hidden numbers and timer', () => {
+    const { game, host, ids, clock } = setup(3)
+    game.handle(host, { type: 'round:start', payload: {} })
+    const saved = JSON.parse(JSON.stringify(game.state))
+    const numbers = game.state.currentRound!.numbers
+
+    const guesserId = game.state.currentRound!.guesserId
+    const answerer = ids.find(id => id !== guesserId)!
+
+    const restored = GameRoom.restore(saved, { packs, clock })
+    expect(restored.state.players.every(p => !p.connected)).toBe(true)
+    // the guesser isn't back yet, so the round waits for them like after a live disconnect
+    expect(restored.state.phase).toBe('paused')
+    expect(restored.nextDeadline()).toBe(clock.t + GUESSER_GRACE_SEC * 1000)
+
+    const out = restored.connect(answerer)
+    expect(restored.player(answerer)!.connected).toBe(true)
+    expect(events(out, 'deal:self')[0]).toEqual({ to: { player: answerer }, event: 'deal:self', payload: { number: numbers[answerer] } })
+    expect(events(out, 'timer:state')[0]).toMatchObject({ to: { player: answerer }, payload: { phase: 'paused' } })
+
+    restored.connect(guesserId)
+    expect(restored.state.phase).toBe('answering')
+    expect(restored.nextDeadline()).toBe(game.nextDeadline())
+
+    // a deadline that passed while the server was down fires on the first tick
+    clock.t += 120_000
+    restored.tick()
+    expect(restored.state.phase).toBe('guessing')
+  })
+
+  it('keeps bots connected so they still play after a restore', () => {
+    const { game, host, ids, clock } = setup(2)
+    game.handle(host, { type: 'room:addBot', payload: {} })
+    const botId = game.state.players.find(p => p.bot)!.id
+
+    const restored = GameRoom.restore(JSON.parse(JSON.stringify(game.state)), { packs, clock })
+    expect(restored.player(botId)!.connected).toBe(true)
+    expect(restored.state.disconnectedAt[botId]).toBeUndefined()
+    for (const id of ids) restored.connect(id)
+    restored.handle(host, { type: 'round:start', payload: {} })
+    expect(restored.state.currentRound!.participants).toEqual([...ids, botId])
+  })
+
+  it('pauses a guessing round whose guesser has not resumed', () => {
+    const { game, host, clock } = setup(3)
+    game.handle(host, { type: 'round:start', payload: {} })
+    answerAll(game)
+    const guesserId = game.state.currentRound!.guesserId
+
+    const restored = GameRoom.restore(JSON.parse(JSON.stringify(game.state)), { packs, clock })
+    expect(restored.state.pause).toMatchObject({ guesserId, resumePhase: 'guessing', expired: false })
+    const out = restored.connect(guesserId)
+    expect(restored.state.phase).toBe('guessing')
+    expect(events(out, 'guesser:needed')[0].payload).toEqual({ guesserId })
+  })
+})
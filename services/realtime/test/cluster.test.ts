@@ -0,0 +1,133 @@
+import { type AddressInfo, createServer } from 'node:net'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCode } from '@sequencing/protocol'
+import { BrokerClient } from '../src/cluster/broker.js'
+import { MemoryBus } from '../src/cluster/bus.js'
+import { RoomRouter } from '../src/cluster/router.js'
+import { MemoryStore } from '../src/cluster/store.js'
+import { type Emission, GameError } from '../src/game/types.js'
+import type { PromptPack } from '../src/prompts.js'
+
+const packs = new Map<string, PromptPack>([
+  ['classic', { id: 'classic', title: 'Classic', rating: 'family', tags: [], prompts: [{ id: 'classic/a', packId: 'classic', text: 'Prompt', low: 'Low', high: 'High' }] }],
+])
+const LEASE_MS = 3_000
+
+// Two nodes sharing one store and bus, recording what each would deliver to its own sockets
+async function cluster() {
+  const store = new MemoryStore()
+  const bus = new MemoryBus()
+  const node = async (id: string) => {
+    const log: Emission[] = []
+    const adopted: string[] = []
+    const router = new RoomRouter(id, store, bus, { packs, leaseMs: LEASE_MS, onEmit: (_code, out) => log.push(...out), onAdopted: code => adopted.push(code) })
+    await router.start()
+    return { router, log, adopted }
+  }
+  const a = await node('a')
+  const b = await node('b')
+  await a.router.create('ROOM42', 'host', 'Host')
+  await b.router.apply('ROOM42', { type: 'join', playerId: 'p2' })
+  await b.router.apply('ROOM42', { type: 'join', playerId: 'p3' })
+  await vi.advanceTimersByTimeAsync(0)
+  return { store, a, b }
+}
+
+const count = (log: Emission[], event: Emission['event']) => log.filter(e => e.event === event).length
+
+describe('RoomRouter', () => {
+  beforeEach(() => { vi.useFakeTimers() })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('forwards operations to the owning node', async () => {
+    const { store, a, b } = await cluster()
+    expect(a.router.ownedRooms()).toEqual(['ROOM42'])
+    expect(b.router.ownedRooms()).toEqual([])
+    expect(await store.owner('ROOM42')).toBe('a')
+    expect((await store.getRoom('ROOM42'))!.players.map(p => p.id)).toEqual(['host', 'p2', 'p3'])
+    // both nodes saw the joins
+    expect(b.log.at(-1)).toMatchObject({ event: 'room:state' })
+  })
+
+  it('rejects with the owner\'s error', async () => {
+    const { b } = await cluster()
+    const start = b.router.apply('ROOM42', { type: 'command', playerId: 'p2', command: { type: 'round:start', payload: {} } })
+    await expect(start).rejects.toEqual(new GameError(ErrorCode.NOT_HOST, 'Only host can start round'))
+  })
+
+  it('delivers private deals to every node and fires timers once', async () => {
+    const { a, b } = await cluster()
+    await a.router.apply('ROOM42', { type: 'command', playerId: 'host', command: { type: 'round:start', payload: {} } })
+    await vi.advanceTimersByTimeAsync(0)
+    expect(b.log.filter(e => e.event === 'deal:self').map(e => e.to)).toEqual([{ player: 'host' }, { player: 'p2' }, { player: 'p3' }])
+
+    await vi.advanceTimersByTimeAsync(90_000)
+    expect(count(a.log, 'guesser:needed')).toBe(1)
+    expect(count(b.log, 'guesser:needed')).toBe(1)
+  })
+
+  it('adopts a crashed owner\'s room once its lease expires, keeping the timer', async () => {
+    const { store, a, b } = await cluster()
+    await a.router.apply('ROOM42', { type: 'command', playerId: 'host', command: { type: 'round:start', payload: {} } })
+    await a.router.stop({ release: false })
+
+    await vi.advanceTimersByTimeAsync(LEASE_MS)
+    expect(await store.owner('ROOM42')).toBe('b')
+    expect(b.adopted).toEqual(['ROOM42'])
+    // the guesser's socket died with the old owner, so the round waits for them and restarts its timer
+    const guesserId = (await store.getRoom('ROOM42'))!.currentRound!.guesserId
+    const seen = b.log.length
+    await b.router.apply('ROOM42', { type: 'connect', playerId: guesserId, socketId: 's1' })
+    expect(b.log.slice(seen).find(e => e.event === 'timer:state')).toMatchObject({ to: 'room', payload: { phase: 'answering' } })
+
+    await vi.advanceTimersByTimeAsync(90_000)
+    expect(count(b.log, 'guesser:needed')).toBe(1)
+    expect((await store.getRoom('ROOM42'))!.phase).toBe('guessing')
+  })
+
+  it('closes the room and revokes sessions when the last player leaves', async () => {
+    const { store, b } = await cluster()
+    await store.putSession('tok', { roomCode: 'ROOM42', playerId: 'p2', issuedAt: Date.now() })
+    for (const playerId of ['host', 'p2', 'p3']) await b.router.apply('ROOM42', { type: 'leave', playerId })
+    expect(await store.getSession('tok')).toBeUndefined()
+    expect(await store.roomCodes()).toEqual([])
+    await expect(b.router.apply('ROOM42', { type: 'join', playerId: 'p4' })).rejects.toMatchObject({ code: ErrorCode.ROOM_NOT_FOUND })
+  })
+
+  it('warns an idle room and then drops it with its timer', async () => {
+    const store = new MemoryStore()
+    const log: Emission[] = []
+    const events: string[] = []
+    const router = new RoomRouter('a', store, new MemoryBus(), {
+      packs, leaseMs: LEASE_MS, idleMs: 5 * 60_000, onEmit: (_code, out) => log.push(...out), onAdopted: () => {}, observe: (_code, e) => events.push(e.type),
+    })
+    await router.start()
+    await router.create('ROOM42', 'host', 'Host')
+    await vi.advanceTimersByTimeAsync(4 * 60_000)
+    expect(log.at(-1)).toMatchObject({ event: 'room:state', payload: { closingAt: Date.now() + 60_000 } })
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(log.at(-1)).toEqual({ to: 'room', event: 'room:closed', payload: { reason: 'idle' } })
+    expect(events).toEqual(['opened', 'expired'])
+    expect(router.ownedRooms()).toEqual([])
+    expect(await store.roomCodes()).toEqual([])
+    expect(vi.getTimerCount()).toBe(1) // just the lease upkeep
+    await router.stop()
+  })
+})
+
+describe('BrokerClient', () => {
+  it('drops the connection on a garbled line instead of throwing', async () => {
+    // a broker that answers every request with half a line of JSON
+    const server = createServer(socket => socket.on('data', () => socket.write('{"id": 1, "res\n')))
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    try {
+      const client = new BrokerClient(`tcp://127.0.0.1:${(server.address() as AddressInfo).port}`)
+      let closed = false
+      await client.connect(() => { closed = true })
+      await expect(client.store.roomCodes()).rejects.toThrow('broker connection closed')
+      expect(closed).toBe(true)
+    } finally {
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,116 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ErrorCode } from '@sequencing/protocol'
+import { GameRoom, publicRoomState } from '../src/game/GameRoom.js'
+import { applyOp } from '../src/game/ops.js'
+import { MemoryBus } from '../src/cluster/bus.js'
+import { RoomRouter } from '../src/cluster/router.js'
+import { MemoryStore } from '../src/cluster/store.js'
+import { FileEventLog, type LogEntry, readLog, redactor, replay } from '../src/eventlog.js'
+import type { PromptPack } from '../src/prompts.js'
+
+const packs = new Map<string, PromptPack>([
+  ['classic', {
+    id: 'classic', title: 'Classic', rating: 'family', tags: [],
+    prompts: ['a', 'b', 'c', 'd'].map(id => ({ id: `classic/${id}`, packId: 'classic', text: `Prompt ${id}`, low: 'Low', high: 'High' })),
+  }],
+])
+
+// A room played through the router until answering times out, logged the way a file log would see it
+async function playLogged() {
+  const store = new MemoryStore()
+  const entries: LogEntry[] = []
+  const router = new RoomRouter('a', store, new MemoryBus(), {
+    packs, onEmit: () => {}, onAdopted: () => {},
+    log: (_code, entry) => entries.push(JSON.parse(JSON.stringify(entry))),
+  })
+  await router.start()
+  await router.create('ROOM42', 'host', 'Host')
+  for (const id of ['p2', 'p3', 'p4']) await router.apply('ROOM42', { type: 'join', playerId: id })
+  await router.apply('ROOM42', { type: 'command', playerId: 'host', command: { type: 'room:shuffleSeats', payload: {} } })
+  await expect(router.apply('ROOM42', { type: 'command', playerId: 'p2', command: { type: 'round:start', payload: {} } })).rejects.toThrow()
+  await router.apply('ROOM42', { type: 'command', playerId: 'host', command: { type: 'round:start', payload: {} } })
+  await vi.advanceTimersByTimeAsync(90_000)
+  await router.stop()
+  return { entries, room: (await store.getRoom('ROOM42'))! }
+}
+
+describe('event log', () => {
+  beforeEach(() => { vi.useFakeTimers() })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('logs accepted inputs and replays them to the same states', async () => {
+    const { entries, room } = await playLogged()
+    expect(entries[0]).toMatchObject({ type: 'open', code: 'ROOM42' })
+    // the rejected round:start is not in the log; the timer firing is
+    const inputs = entries.flatMap(e => e.type === 'op' ? [e.op.type === 'command' ? e.op.command.type : e.op.type] : [])
+    expect(inputs).toEqual(['join', 'join', 'join', 'join', 'room:shuffleSeats', 'round:start', 'tick'])
+
+    const steps = replay(entries, packs)
+    expect(steps.filter(s => s.diverged)).toEqual([])
+    expect(steps.at(-1)!.states.at(-1)).toEqual(JSON.parse(JSON.stringify(publicRoomState(room))))
+    expect(steps.at(-1)!.states.at(-1)!.phase).toBe('guessing')
+  })
+
+  it('flags inputs whose outcome differs from the log', async () => {
+    const { entries } = await playLogged()
+    const start = entries.find(e => e.type === 'op' && e.op.type === 'command' && e.op.command.type === 'round:start')!
+    if (start.type === 'op') start.seed += 1
+    const diverged = replay(entries, packs).filter(s => s.diverged).map(s => s.input)
+    expect(diverged).toContain('round:start')
+  })
+
+  it('keeps room passwords and browser identities out of the log, and still replays', async () => {
+    const store = new MemoryStore()
+    const redact = redactor()
+    const entries: LogEntry[] = []
+    const router = new RoomRouter('a', store, new MemoryBus(), {
+      packs, onEmit: () => {}, onAdopted: () => {},
+      log: (_code, entry) => entries.push(JSON.parse(JSON.stringify(redact(entry)))),
+    })
+    await router.start()
+    await router.create('ROOM42', 'host', 'Host', 'browser-host')
+    await router.apply('ROOM42', { type: 'command', playerId: 'host', command: { type: 'room:setPassword', payload: { password: 'hunter2' } } })
+    await expect(router.apply('ROOM42', { type: 'join', playerId: 'p2', identity: 'browser-p2', password: 'letmein' })).rejects.toThrow()
+    await router.apply('ROOM42', { type: 'join', playerId: 'p2', identity: 'browser-p2', password: 'hunter2' })
+    await router.apply('ROOM42', { type: 'command', playerId: 'host', command: { type: 'room:ban', payload: { playerId: 'p2' } } })
+    await expect(router.apply('ROOM42', { type: 'join', playerId: 'p3', identity: 'browser-p2', password: 'hunter2' })).rejects.toThrow()
+    await router.apply('ROOM42', { type: 'join', playerId: 'p4', identity: 'browser-p4', password: 'hunter2' })
+    const restore = redact({ type: 'restore', at: Date.now(), state: (await store.getRoom('ROOM42'))! })
+    await router.stop()
+
+    const logged = JSON.stringify([...entries, restore])
+    for (const secret of ['hunter2', 'browser-host', 'browser-p2', 'browser-p4']) expect(logged).not.toContain(secret)
+    expect(replay(entries, packs).filter(s => s.diverged)).toEqual([])
+
+    // a room restored from the redacted state still checks redacted join attempts the same way
+    const game = GameRoom.restore(structuredClone((restore as Extract<LogEntry, { type: 'restore' }>).state), { packs })
+    const join = (identity: string, password: string) => {
+      const entry = redact({ type: 'op', at: 0, seed: 0, op: { type: 'join', playerId: identity, identity, password }, out: [] })
+      if (entry.type !== 'op') throw new Error('expected an op')
+      return () => applyOp(game, entry.op)
+    }
+    expect(join('browser-p2', 'hunter2')).toThrow(expect.objectContaining({ code: ErrorCode.BANNED }))
+    expect(join('browser-p5', 'letmein')).toThrow(expect.objectContaining({ code: ErrorCode.WRONG_PASSWORD }))
+    expect(join('browser-p5', 'hunter2')).not.toThrow()
+  })
+
+  it('appends entries per room to JSONL files', async () => {
+    vi.useRealTimers()
+    const dir = await mkdtemp(join(tmpdir(), 'sequencing-'))
+    try {
+      const log = new FileEventLog(dir)
+      log.append('ROOM42', { type: 'open', at: 1, seed: 7, code: 'ROOM42' })
+      log.append('ROOM42', { type: 'op', at: 2, seed: 8, op: { type: 'tick' }, out: [] })
+      await log.flush()
+      expect(await readLog(join(dir, 'ROOM42.jsonl'))).toEqual([
+        { type: 'open', at: 1, seed: 7, code: 'ROOM42' },
+        { type: 'op', at: 2, seed: 8, op: { type: 'tick' }, out: [] },
+      ])
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { ErrorCode } from '@sequencing/protocol'
+import { MemoryStore } from '../src/cluster/store.js'
+import { GameRoom } from '../src/game/GameRoom.js'
+import { historyAccess } from '../src/history.js'
+import type { RoomData } from '../src/game/types.js'
+
+function room(): RoomData {
+  const game = new GameRoom('ROOM42', { packs: new Map() })
+  const host = game.join('Host').playerId
+  game.handle(host, { type: 'room:setPassword', payload: { password: 'hunter2' } })
+  return structuredClone(game.state) as RoomData
+}
+
+describe('history access', () => {
+  it('takes the room password or a seat token, and refuses locked rooms', async () => {
+    const store = new MemoryStore()
+    const data = room()
+    const seat = data.players[0].id
+    await store.putSession('seat', { roomCode: 'ROOM42', playerId: seat, issuedAt: 100 })
+    await store.putSession('elsewhere', { roomCode: 'OTHER1', playerId: seat, issuedAt: 100 })
+
+    expect(await historyAccess(store, data, {}, 0)).toMatchObject({ status: 401, code: ErrorCode.PASSWORD_REQUIRED })
+    expect(await historyAccess(store, data, { password: 'nope' }, 0)).toMatchObject({ status: 403, code: ErrorCode.WRONG_PASSWORD })
+    expect(await historyAccess(store, data, { password: 'hunter2' }, 0)).toBeUndefined()
+    expect(await historyAccess(store, data, { token: 'seat' }, 0)).toBeUndefined()
+    // tokens for another room or past their lifetime don't count
+    expect(await historyAccess(store, data, { token: 'elsewhere' }, 0)).toMatchObject({ code: ErrorCode.PASSWORD_REQUIRED })
+    expect(await historyAccess(store, data, { token: 'seat' }, 200)).toMatchObject({ code: ErrorCode.PASSWORD_REQUIRED })
+
+    data.settings.locked = true
+    expect(await historyAccess(store, data, { password: 'hunter2' }, 0)).toMatchObject({ status: 403, code: ErrorCode.ROOM_LOCKED })
+    expect(await historyAccess(store, data, { token: 'seat' }, 0)).toBeUndefined()
+  })
+})
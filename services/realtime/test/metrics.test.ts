@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MemoryBus } from '../src/cluster/bus.js'
+import { type RoomEvent, RoomRouter } from '../src/cluster/router.js'
+import { MemoryStore } from '../src/cluster/store.js'
+import { Registry, ServerMetrics } from '../src/metrics.js'
+import type { PromptPack } from '../src/prompts.js'
+
+const packs = new Map<string, PromptPack>([
+  ['classic', { id: 'classic', title: 'Classic', rating: 'family', tags: [], prompts: [{ id: 'classic/a', packId: 'classic', text: 'Prompt', low: 'Low', high: 'High' }] }],
+])
+
+describe('metrics', () => {
+  beforeEach(() => { vi.useFakeTimers() })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('renders the Prometheus text format', () => {
+    const registry = new Registry()
+    const errors = registry.counter('errors_total', 'Errors')
+    const latency = registry.histogram('latency_seconds', 'Latency', [1, 5])
+    registry.gauge('rooms', 'Rooms', () => 3)
+    errors.inc({ code: 'NOT_HOST' })
+    errors.inc({ code: 'NOT_HOST' })
+    latency.observe(0.5, { phase: 'lobby' })
+    latency.observe(3, { phase: 'lobby' })
+    expect(registry.render()).toBe([
+      '# HELP errors_total Errors', '# TYPE errors_total counter', 'errors_total{code="NOT_HOST"} 2',
+      '# HELP latency_seconds Latency', '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{phase="lobby",le="1"} 1', 'latency_seconds_bucket{phase="lobby",le="5"} 2', 'latency_seconds_bucket{phase="lobby",le="+Inf"} 2',
+      'latency_seconds_sum{phase="lobby"} 3.5', 'latency_seconds_count{phase="lobby"} 2',
+      '# HELP rooms Rooms', '# TYPE rooms gauge', 'rooms 3',
+      '',
+    ].join('\n'))
+  })
+
+  it('follows rooms and rounds through the router\'s room events', async () => {
+    const events: RoomEvent[] = []
+    const metrics = new ServerMetrics({ rooms: () => 0, players: () => 0 })
+    const router = new RoomRouter('a', new MemoryStore(), new MemoryBus(), {
+      packs, onEmit: () => {}, onAdopted: () => {}, seed: () => 1,
+      observe: (code, event) => { events.push(event); metrics.room(code, event) },
+    })
+    await router.start()
+    await router.create('ROOM42', 'host', 'Host')
+    for (const id of ['p2', 'p3']) await router.apply('ROOM42', { type: 'join', playerId: id })
+    await vi.advanceTimersByTimeAsync(20_000)
+    await router.apply('ROOM42', { type: 'command', playerId: 'host', command: { type: 'round:start', payload: {} } })
+    for (const id of ['host', 'p2', 'p3']) await router.apply('ROOM42', { type: 'leave', playerId: id })
+
+    // with the seed pinned the host is the guesser, so their leaving pauses the round on the way out
+    expect(events).toEqual([
+      { type: 'opened' },
+      { type: 'phase', from: 'lobby', to: 'answering', ms: 20_000, round: 1 },
+      { type: 'phase', from: 'answering', to: 'paused', ms: 0, round: 1 },
+      { type: 'closed' },
+    ])
+    expect(metrics.roundsStarted.get()).toBe(1)
+    expect(metrics.roundsCompleted.get()).toBe(0)
+    expect(metrics.firstRoundSeconds.count()).toBe(1)
+    expect(metrics.phaseSeconds.count({ phase: 'lobby' })).toBe(1)
+    expect(metrics.phaseSeconds.count({ phase: 'answering' })).toBe(1)
+    expect(metrics.roomsClosed.get()).toBe(1)
+    await router.stop()
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { clientIp, Lockout, SocketLimiter, trustedProxies, WindowLimiter } from '../src/ratelimit.js'
+
+describe('rate limiting', () => {
+  it('refills each event\'s bucket on its own', () => {
+    const limiter = new SocketLimiter()
+    for (let i = 0; i < 5; i++) expect(limiter.allow('answer:submit', 0)).toBe(true)
+    expect(limiter.allow('answer:submit', 0)).toBe(false)
+    // other events keep their own budget
+    expect(limiter.allow('ordering:preview', 0)).toBe(true)
+    expect(limiter.allow('answer:submit', 500)).toBe(false)
+    expect(limiter.allow('answer:submit', 1000)).toBe(true)
+  })
+
+  it('locks out repeated room-code misses and prunes stale entries', () => {
+    const guesses = new Lockout(3, 60_000, 600_000)
+    for (let i = 0; i < 3; i++) guesses.miss('1.2.3.4', i)
+    expect(guesses.locked('1.2.3.4', 10)).toBe(true)
+    expect(guesses.locked('5.6.7.8', 10)).toBe(false)
+    guesses.prune(120_000)
+    expect(guesses.locked('1.2.3.4', 120_000)).toBe(true)
+    guesses.prune(700_000)
+    expect(guesses.size).toBe(0)
+
+    const hits = new WindowLimiter(2, 1000)
+    expect([hits.hit('a', 0), hits.hit('a', 0), hits.hit('a', 0)]).toEqual([true, true, false])
+    hits.hit('b', 900)
+    hits.prune(1500)
+    expect(hits.size).toBe(1)
+  })
+
+  it('only believes X-Forwarded-For from a trusted proxy', () => {
+    const trusted = trustedProxies(undefined)
+    expect(clientIp('::ffff:127.0.0.1', '203.0.113.9', trusted)).toBe('203.0.113.9')
+    // a client-supplied entry sits left of the address Apache appends
+    expect(clientIp('127.0.0.1', '10.9.9.9, 203.0.113.9', trusted)).toBe('203.0.113.9')
+    expect(clientIp('198.51.100.7', '203.0.113.9', trusted)).toBe('198.51.100.7')
+    expect(clientIp('127.0.0.1', undefined, trusted)).toBe('127.0.0.1')
+    expect(clientIp('10.0.0.2', '203.0.113.9, 10.0.0.1', trustedProxies('10.0.0.1,10.0.0.2'))).toBe('203.0.113.9')
+  })
+})
@@ -0,0 +1,34 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { FileStorage, type Snapshot } from '../src/storage.js'
+
+const snapshot = (savedAt: number): Snapshot => ({
+  version: 1,
+  savedAt,
+  rooms: [],
+  sessions: { tok: { roomCode: 'ABCDEF', playerId: 'p1', issuedAt: savedAt } },
+})
+
+describe('FileStorage', () => {
+  let dir: string
+  beforeEach(async () => { dir = await mkdtemp(join(tmpdir(), 'sequencing-')) })
+  afterEach(async () => { await rm(dir, { recursive: true, force: true }) })
+
+  it('loads nothing before the first save', async () => {
+    expect(await new FileStorage(join(dir, 'missing')).load()).toBeUndefined()
+  })
+
+  it('round-trips the latest snapshot without leaving temp files', async () => {
+    const storage = new FileStorage(dir)
+    await Promise.all([storage.save(snapshot(1)), storage.save(snapshot(2)), storage.save(snapshot(3))])
+    expect(await new FileStorage(dir).load()).toEqual(snapshot(3))
+    expect(await readdir(dir)).toEqual(['snapshot.json'])
+  })
+
+  it('rejects snapshots from another format version', async () => {
+    await writeFile(join(dir, 'snapshot.json'), JSON.stringify({ ...snapshot(1), version: 2 }))
+    await expect(new FileStorage(dir).load()).rejects.toThrow(/unsupported snapshot version/)
+  })
+})